@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { Home, Camera, BarChart3, Settings } from 'lucide-react-native';
+import { Home, Camera, BarChart3, Settings, History } from 'lucide-react-native';
 
 export default function TabLayout() {
   return (
@@ -40,6 +40,24 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: 'History',
+          tabBarIcon: ({ size, color }) => (
+            <History size={size} color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="progress"
+        options={{
+          title: 'Progress',
+          tabBarIcon: ({ size, color }) => (
+            <BarChart3 size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
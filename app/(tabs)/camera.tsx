@@ -6,6 +6,10 @@ import { router, useFocusEffect } from 'expo-router';
 import { RotateCcw, Square, StopCircle } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import * as FileSystem from 'expo-file-system';
+import { AthleteSelector } from '@/components/AthleteSelector';
+import { SessionControl } from '@/components/SessionControl';
+import { useSettings } from '@/hooks/useSettings';
+import { captureSettingsFor } from '@/src/settingsStore';
 
 export default function CameraScreen() {
   const [facing, setFacing] = useState<CameraType>('back');
@@ -18,6 +22,8 @@ export default function CameraScreen() {
   const recordingPromiseRef = useRef<Promise<{ uri: string } | undefined> | null>(null);
   const startTimeRef = useRef<number | null>(null);
   const [cameraKey, setCameraKey] = useState(Date.now().toString());
+  const { settings } = useSettings();
+  const captureSettings = captureSettingsFor(settings);
 
   const handleCameraReady = useCallback(() => {
     console.log('Camera is ready');
@@ -308,8 +314,8 @@ export default function CameraScreen() {
           }}
           onCameraReady={handleCameraReady}
           ratio="16:9"
-          videoQuality="480p"
-          videoBitrate={600000}
+          videoQuality={captureSettings.videoQuality}
+          videoBitrate={captureSettings.videoBitrate}
         >
           <View style={styles.overlay}>
             <View style={styles.topBar}>
@@ -331,6 +337,8 @@ export default function CameraScreen() {
                 <RotateCcw size={24} color={cameraReady ? '#ffffff' : '#666666'} />
               </TouchableOpacity> */}
             </View>
+            <AthleteSelector disabled={isRecording} />
+            <SessionControl disabled={isRecording} style={styles.sessionControl} />
 
             <View style={styles.centerOverlay}>
               <View style={styles.targetFrame}>
@@ -398,6 +406,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   closeButtonText: { color: '#fff', fontSize: 20 },
+  sessionControl: { marginTop: 8 },
   title: { fontSize: 18, color: '#fff', textAlign: 'center' },
   flipButton: {
     width: 40,
@@ -0,0 +1,310 @@
+import { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, Platform, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { History, Trash2, ChevronRight, CalendarDays, CloudUpload } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useHistory } from '@/hooks/useHistory';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { HistoryEntry, historyFeedbackParams } from '@/src/historyStore';
+import { deleteSession, loadSessions, TrainingSession } from '@/src/sessionStore';
+
+type HistoryView = 'throws' | 'sessions';
+
+const getResultColor = (prediction: string) => {
+  switch (prediction) {
+    case 'Good Technique': return '#10b981';
+    case 'Low Arm': return '#f59e0b';
+    case 'Poor Left Leg Block':
+    case 'Poor Right Leg Block': return '#ef4444';
+    case 'Both Errors': return '#dc2626';
+    default: return '#64748b';
+  }
+};
+
+export default function HistoryScreen() {
+  const { entries, isLoading, remove } = useHistory();
+  const [view, setView] = useState<HistoryView>('throws');
+  const [sessions, setSessions] = useState<TrainingSession[]>([]);
+  const { jobs } = useUploadQueue();
+  const failedUploads = jobs.filter(job => job.status === 'failed').length;
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions().then(setSessions);
+    }, [])
+  );
+
+  const openEntry = async (entry: HistoryEntry) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    try {
+      router.push({ pathname: '/feedback', params: await historyFeedbackParams(entry) });
+    } catch (error: any) {
+      Alert.alert('Could not open throw', error?.message ?? 'The saved analysis could not be read.');
+    }
+  };
+
+  const confirmDelete = (entry: HistoryEntry) => {
+    Alert.alert(
+      'Delete throw',
+      'This removes the analysis and its saved video from this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => remove(entry.id) },
+      ]
+    );
+  };
+
+  const confirmDeleteSession = (session: TrainingSession) => {
+    Alert.alert(
+      'Delete session',
+      'The session is removed; its throws stay in your history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteSession(session.id);
+            setSessions(current => current.filter(item => item.id !== session.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSession = ({ item }: { item: TrainingSession }) => {
+    const throwCount = entries.filter(entry => entry.sessionId === item.id).length;
+    return (
+      <TouchableOpacity
+        style={styles.entry}
+        onPress={() => router.push({ pathname: '/session', params: { sessionId: item.id } })}
+      >
+        <CalendarDays size={22} color="#3182ce" style={styles.sessionIcon} />
+        <View style={styles.entryContent}>
+          <Text style={styles.entryTitle}>{item.name}</Text>
+          <Text style={styles.entrySubtitle}>
+            {`${throwCount} ${throwCount === 1 ? 'throw' : 'throws'} · ${item.endedAt ? new Date(item.startedAt).toLocaleDateString() : 'In progress'}`}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDeleteSession(item)}>
+          <Trash2 size={18} color="#ef4444" />
+        </TouchableOpacity>
+        <ChevronRight size={20} color="#94a3b8" />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => (
+    <TouchableOpacity style={styles.entry} onPress={() => openEntry(item)}>
+      <View style={[styles.resultMarker, { backgroundColor: getResultColor(item.result.prediction) }]} />
+      <View style={styles.entryContent}>
+        <Text style={styles.entryTitle}>{item.result.prediction}</Text>
+        <Text style={styles.entrySubtitle}>
+          {`${Math.round(item.result.confidence * 100)}% · ${new Date(item.createdAt).toLocaleString()}`}
+        </Text>
+        {item.athlete && <Text style={styles.entryAthlete}>{item.athlete.name}</Text>}
+      </View>
+      <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDelete(item)}>
+        <Trash2 size={18} color="#ef4444" />
+      </TouchableOpacity>
+      <ChevronRight size={20} color="#94a3b8" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Text style={styles.title}>History</Text>
+          <Text style={styles.subtitle}>Your analyzed throws</Text>
+        </View>
+
+        {jobs.length > 0 && (
+          <TouchableOpacity style={styles.queueBanner} onPress={() => router.push('/uploads')}>
+            <CloudUpload size={20} color="#ffffff" />
+            <Text style={styles.queueBannerText}>
+              {`${jobs.length} ${jobs.length === 1 ? 'clip' : 'clips'} in the upload queue${
+                failedUploads > 0 ? ` · ${failedUploads} failed` : ''
+              }`}
+            </Text>
+            <ChevronRight size={18} color="#ffffff" />
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.viewToggle}>
+          {(['throws', 'sessions'] as HistoryView[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.viewButton, view === option && styles.viewButtonActive]}
+              onPress={() => setView(option)}
+            >
+              <Text style={styles.viewButtonText}>{option === 'throws' ? 'Throws' : 'Sessions'}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {view === 'sessions' ? (
+          <FlatList
+            data={sessions}
+            keyExtractor={session => session.id}
+            renderItem={renderSession}
+            contentContainerStyle={styles.list}
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <CalendarDays size={40} color="#e2e8f0" />
+                <Text style={styles.emptyText}>No sessions yet. Start one from the Record screen.</Text>
+              </View>
+            }
+          />
+        ) : isLoading && entries.length === 0 ? (
+          <ActivityIndicator style={styles.loading} color="#ffffff" />
+        ) : (
+          <FlatList
+            data={entries}
+            keyExtractor={entry => entry.id}
+            renderItem={renderEntry}
+            contentContainerStyle={styles.list}
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <History size={40} color="#e2e8f0" />
+                <Text style={styles.emptyText}>No throws yet. Analyze a video to start your history.</Text>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#e2e8f0',
+  },
+  queueBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  queueBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#ffffff',
+    marginLeft: 10,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginBottom: 12,
+  },
+  viewButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    marginHorizontal: 4,
+  },
+  viewButtonActive: {
+    backgroundColor: '#3182ce',
+  },
+  viewButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  sessionIcon: {
+    marginRight: 12,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  entry: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  resultMarker: {
+    width: 8,
+    alignSelf: 'stretch',
+    borderRadius: 4,
+    marginRight: 12,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a202c',
+  },
+  entrySubtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#64748b',
+    marginTop: 2,
+  },
+  entryAthlete: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#3182ce',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#e2e8f0',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
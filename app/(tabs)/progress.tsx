@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useHistory } from '@/hooks/useHistory';
+import { BarChart, LineChart, StackedBarChart } from '@/components/ProgressCharts';
+import { formatMetric, METRIC_DEFINITIONS, METRIC_KEYS, MetricKey } from '@/components/BiomechanicsMetrics';
+import {
+  DATE_RANGES, DateRange, filterHistory, goodTechniqueShareBySession, metricSeries,
+  PROGRESS_CLASS_COLORS, PROGRESS_CLASSES, probabilityMixSeries
+} from '@/src/progressStats';
+import { AthleteTag } from '@/src/historyStore';
+
+const { width } = Dimensions.get('window');
+const CHART_WIDTH = width - 40 - 32; // screen and card padding
+const CHART_HEIGHT = 160;
+
+export default function ProgressScreen() {
+  const { entries } = useHistory();
+  const [athleteId, setAthleteId] = useState<string | null>(null);
+  const [range, setRange] = useState<DateRange>('30d');
+  const [metricKey, setMetricKey] = useState<MetricKey>('throwingArmAngleAtRelease');
+
+  // Athletes that appear in the history, for the filter
+  const athletes = useMemo(() => {
+    const byId = new Map<string, AthleteTag>();
+    entries.forEach(entry => {
+      if (entry.athlete) byId.set(entry.athlete.id, entry.athlete);
+    });
+    return Array.from(byId.values());
+  }, [entries]);
+
+  const filtered = useMemo(() => filterHistory(entries, { athleteId, range }), [entries, athleteId, range]);
+  const mix = useMemo(() => probabilityMixSeries(filtered), [filtered]);
+  const sessions = useMemo(() => goodTechniqueShareBySession(filtered), [filtered]);
+  const metricPoints = useMemo(() => metricSeries(filtered, metricKey), [filtered, metricKey]);
+
+  const FilterChip = ({ label, active, onPress, onCard = false }: {
+    label: string;
+    active: boolean;
+    onPress: () => void;
+    onCard?: boolean;
+  }) => (
+    <TouchableOpacity style={[styles.chip, onCard && styles.chipOnCard, active && styles.chipActive]} onPress={onPress}>
+      <Text style={[styles.chipText, onCard && styles.chipTextOnCard, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Progress</Text>
+          <Text style={styles.subtitle}>{`${filtered.length} throws in view`}</Text>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            <FilterChip label="All athletes" active={athleteId === null} onPress={() => setAthleteId(null)} />
+            {athletes.map(athlete => (
+              <FilterChip
+                key={athlete.id}
+                label={athlete.name}
+                active={athleteId === athlete.id}
+                onPress={() => setAthleteId(athlete.id)}
+              />
+            ))}
+          </ScrollView>
+          <View style={styles.filterRow}>
+            {DATE_RANGES.map(option => (
+              <FilterChip
+                key={option.value}
+                label={option.label}
+                active={range === option.value}
+                onPress={() => setRange(option.value)}
+              />
+            ))}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Technique mix per throw</Text>
+            <StackedBarChart
+              width={CHART_WIDTH}
+              height={CHART_HEIGHT}
+              bars={mix.map((point, index) => ({
+                key: `${point.createdAt}-${index}`,
+                segments: PROGRESS_CLASSES.map(progressClass => ({
+                  value: point.mix[progressClass],
+                  color: PROGRESS_CLASS_COLORS[progressClass]
+                }))
+              }))}
+            />
+            <View style={styles.legend}>
+              {PROGRESS_CLASSES.map(progressClass => (
+                <View key={progressClass} style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: PROGRESS_CLASS_COLORS[progressClass] }]} />
+                  <Text style={styles.legendText}>{progressClass}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Good Technique per session</Text>
+            <BarChart
+              width={CHART_WIDTH}
+              height={CHART_HEIGHT}
+              maxValue={1}
+              color={PROGRESS_CLASS_COLORS['Good Technique']}
+              formatValue={value => `${Math.round(value * 100)}%`}
+              bars={sessions.map(session => ({ key: session.key, label: session.label, value: session.goodShare }))}
+            />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{METRIC_DEFINITIONS[metricKey].label}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.metricRow}>
+              {METRIC_KEYS.map(key => (
+                <FilterChip
+                  key={key}
+                  label={METRIC_DEFINITIONS[key].label}
+                  active={metricKey === key}
+                  onPress={() => setMetricKey(key)}
+                  onCard
+                />
+              ))}
+            </ScrollView>
+            <LineChart
+              width={CHART_WIDTH}
+              height={CHART_HEIGHT}
+              color="#3182ce"
+              formatValue={value => formatMetric(metricKey, value)}
+              points={metricPoints.map(point => ({ x: point.createdAt, y: point.value }))}
+            />
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: 'Inter-Bold',
+    color: '#ffffff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#e2e8f0',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexGrow: 0,
+    marginBottom: 10,
+  },
+  metricRow: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    marginRight: 8,
+  },
+  chipOnCard: {
+    backgroundColor: '#f1f5f9',
+  },
+  chipActive: {
+    backgroundColor: '#3182ce',
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    color: '#e2e8f0',
+  },
+  chipTextOnCard: {
+    color: '#4a5568',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a202c',
+    marginBottom: 12,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 4,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#4a5568',
+  },
+});
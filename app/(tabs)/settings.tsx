@@ -1,13 +1,27 @@
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useState } from 'react';
-import { Settings, User, Bell, Shield, Info, HelpCircle } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { Settings, User, Bell, Shield, Info, HelpCircle, Server, Cpu } from 'lucide-react-native';
+import { useSettings } from '@/hooks/useSettings';
+import { useServerProfiles } from '@/hooks/useServerProfiles';
+import { ANALYSIS_MODES, AnalysisMode, AUTO_ON_DEVICE_MAX_DURATION_MS } from '@/src/settingsStore';
+import { prefetchOnDeviceModels } from '@/src/analysisMode';
+
+const ANALYSIS_MODE_DESCRIPTIONS: Record<AnalysisMode, string> = {
+  server: 'Upload every clip to the analysis server',
+  'on-device': 'Analyze on this phone, even offline',
+  auto: `On this phone when offline or for clips under ${AUTO_ON_DEVICE_MAX_DURATION_MS / 1000} s, once its models are downloaded`,
+};
 
 export default function SettingsScreen() {
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [autoSaveEnabled, setAutoSaveEnabled] = useState(true);
-  const [highQualityEnabled, setHighQualityEnabled] = useState(false);
+  const { settings, update } = useSettings();
+  const { activeProfile } = useServerProfiles();
+
+  const selectAnalysisMode = (analysisMode: AnalysisMode) => {
+    update({ analysisMode });
+    if (analysisMode !== 'server') prefetchOnDeviceModels();
+  };
 
   const SettingItem = ({ 
     icon, 
@@ -65,37 +79,65 @@ export default function SettingsScreen() {
             <Text style={styles.sectionTitle}>Profile</Text>
             <SettingItem
               icon={<User size={24} color="#3182ce" />}
-              title="Account"
-              subtitle="Manage your profile and preferences"
-              onPress={() => {}}
+              title="Athletes"
+              subtitle="Profiles, throwing hand and personal bests"
+              onPress={() => router.push('/athletes')}
             />
           </View>
 
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Analysis</Text>
+            <SettingItem
+              icon={<Server size={24} color="#3182ce" />}
+              title="Analysis Server"
+              subtitle={activeProfile ? `${activeProfile.name} · ${activeProfile.baseUrl}` : 'Where videos are uploaded'}
+              onPress={() => router.push('/servers')}
+            />
+            <View style={styles.settingItem}>
+              <View style={styles.settingLeft}>
+                <View style={styles.settingIcon}><Cpu size={24} color="#3182ce" /></View>
+                <View style={styles.settingContent}>
+                  <Text style={styles.settingTitle}>Analysis Mode</Text>
+                  <Text style={styles.settingSubtitle}>{ANALYSIS_MODE_DESCRIPTIONS[settings.analysisMode]}</Text>
+                  <View style={styles.optionRow}>
+                    {ANALYSIS_MODES.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.option, settings.analysisMode === option.value && styles.optionActive]}
+                        onPress={() => selectAnalysisMode(option.value)}
+                      >
+                        <Text style={[styles.optionText, settings.analysisMode === option.value && styles.optionTextActive]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              </View>
+            </View>
             <SettingItem
               icon={<Bell size={24} color="#3182ce" />}
               title="Notifications"
               subtitle="Get notified about analysis results"
               hasSwitch={true}
-              switchValue={notificationsEnabled}
-              onSwitchChange={setNotificationsEnabled}
+              switchValue={settings.notificationsEnabled}
+              onSwitchChange={value => update({ notificationsEnabled: value })}
             />
             <SettingItem
               icon={<Settings size={24} color="#3182ce" />}
               title="Auto-save Videos"
-              subtitle="Automatically save analyzed videos"
+              subtitle="Save analyzed videos to your gallery"
               hasSwitch={true}
-              switchValue={autoSaveEnabled}
-              onSwitchChange={setAutoSaveEnabled}
+              switchValue={settings.autoSaveEnabled}
+              onSwitchChange={value => update({ autoSaveEnabled: value })}
             />
             <SettingItem
               icon={<Shield size={24} color="#3182ce" />}
               title="High Quality Analysis"
-              subtitle="Use more processing power for better results"
+              subtitle="Record in 1080p and analyze at 60 fps"
               hasSwitch={true}
-              switchValue={highQualityEnabled}
-              onSwitchChange={setHighQualityEnabled}
+              switchValue={settings.highQualityEnabled}
+              onSwitchChange={value => update({ highQualityEnabled: value })}
             />
           </View>
 
@@ -205,6 +247,29 @@ const styles = StyleSheet.create({
     color: '#64748b',
     marginTop: 2,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f1f5f9',
+    marginRight: 8,
+  },
+  optionActive: {
+    backgroundColor: '#3182ce',
+  },
+  optionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#4a5568',
+  },
+  optionTextActive: {
+    color: '#ffffff',
+  },
   footer: {
     alignItems: 'center',
     paddingVertical: 30,
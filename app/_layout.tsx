@@ -5,6 +5,8 @@ import { useFonts } from 'expo-font';
 import { Inter_400Regular, Inter_500Medium, Inter_600SemiBold, Inter_700Bold } from '@expo-google-fonts/inter';
 import { SplashScreen } from 'expo-router';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { registerBackgroundUploads } from '@/src/backgroundUploads';
+import { uploadQueue } from '@/src/uploadQueue';
 
 // Prevent splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
@@ -19,6 +21,13 @@ export default function RootLayout() {
     'Inter-Bold': Inter_700Bold,
   });
 
+  // Resume uploads left over from the previous launch, and keep draining the
+  // queue in the background once the app is closed
+  useEffect(() => {
+    uploadQueue.start();
+    registerBackgroundUploads().catch(error => console.warn('Could not register background uploads:', error));
+  }, []);
+
   useEffect(() => {
     if (fontsLoaded || fontError) {
       SplashScreen.hideAsync();
@@ -37,6 +46,11 @@ export default function RootLayout() {
         <Stack.Screen name="preview" />
         <Stack.Screen name="processing" />
         <Stack.Screen name="feedback" />
+        <Stack.Screen name="compare" />
+        <Stack.Screen name="athletes" />
+        <Stack.Screen name="session" />
+        <Stack.Screen name="servers" />
+        <Stack.Screen name="uploads" />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="light" />
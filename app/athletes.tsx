@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Plus, Trash2, Check } from 'lucide-react-native';
+import { useAthletes } from '@/hooks/useAthletes';
+import {
+  Athlete, AthleteDraft, ATHLETE_EVENTS, athleteEventLabel, deleteAthlete, saveAthlete
+} from '@/src/athleteStore';
+import { ThrowingHand } from '@/components/JointRoles';
+
+interface AthleteForm {
+  id?: string;
+  name: string;
+  throwingHand: ThrowingHand;
+  height: string;
+  event: Athlete['event'];
+  personalBest: string;
+}
+
+const EMPTY_FORM: AthleteForm = { name: '', throwingHand: 'right', height: '', event: 'men800', personalBest: '' };
+
+const toForm = (athlete: Athlete): AthleteForm => ({
+  id: athlete.id,
+  name: athlete.name,
+  throwingHand: athlete.throwingHand,
+  height: athlete.heightCm?.toString() ?? '',
+  event: athlete.event,
+  personalBest: athlete.personalBest?.toString() ?? '',
+});
+
+// Empty or non-numeric input is stored as null
+const parseOptionalNumber = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export default function AthletesScreen() {
+  const { athletes, activeAthlete, selectAthlete, refresh } = useAthletes();
+  const [form, setForm] = useState<AthleteForm | null>(null);
+
+  const updateForm = (changes: Partial<AthleteForm>) => setForm(current => (current ? { ...current, ...changes } : current));
+
+  const submit = async () => {
+    if (!form) return;
+    const name = form.name.trim();
+    if (!name) {
+      Alert.alert('Name required', 'Enter the athlete\'s name.');
+      return;
+    }
+
+    const draft: AthleteDraft = {
+      name,
+      throwingHand: form.throwingHand,
+      heightCm: parseOptionalNumber(form.height),
+      event: form.event,
+      personalBest: parseOptionalNumber(form.personalBest),
+    };
+    try {
+      const saved = await saveAthlete(draft, form.id);
+      // A new athlete becomes the active one; editing the active athlete keeps it fresh
+      if (!form.id || activeAthlete?.id === saved.id) await selectAthlete(saved);
+      setForm(null);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to save athlete:', error);
+      Alert.alert('Error', 'Failed to save athlete.');
+    }
+  };
+
+  const confirmDelete = (athlete: Athlete) => {
+    Alert.alert(
+      'Delete athlete',
+      `Delete ${athlete.name}? Their analyzed throws stay in History.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteAthlete(athlete.id);
+            await refresh();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderForm = (current: AthleteForm) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{current.id ? 'Edit athlete' : 'New athlete'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={current.name}
+        onChangeText={name => updateForm({ name })}
+        placeholder="Athlete name"
+        placeholderTextColor="#a0aec0"
+      />
+
+      <Text style={styles.label}>Throwing hand</Text>
+      <View style={styles.optionRow}>
+        {(['right', 'left'] as ThrowingHand[]).map(hand => (
+          <TouchableOpacity
+            key={hand}
+            style={[styles.option, current.throwingHand === hand && styles.optionActive]}
+            onPress={() => updateForm({ throwingHand: hand })}
+          >
+            <Text style={[styles.optionText, current.throwingHand === hand && styles.optionTextActive]}>
+              {hand === 'right' ? 'Right' : 'Left'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Event</Text>
+      <View style={styles.optionRow}>
+        {ATHLETE_EVENTS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, current.event === option.value && styles.optionActive]}
+            onPress={() => updateForm({ event: option.value })}
+          >
+            <Text style={[styles.optionText, current.event === option.value && styles.optionTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.inputRow}>
+        <View style={styles.inputColumn}>
+          <Text style={styles.label}>Height (cm)</Text>
+          <TextInput
+            style={styles.input}
+            value={current.height}
+            onChangeText={height => updateForm({ height })}
+            keyboardType="numeric"
+            placeholder="—"
+            placeholderTextColor="#a0aec0"
+          />
+        </View>
+        <View style={styles.inputColumn}>
+          <Text style={styles.label}>Personal best (m)</Text>
+          <TextInput
+            style={styles.input}
+            value={current.personalBest}
+            onChangeText={personalBest => updateForm({ personalBest })}
+            keyboardType="decimal-pad"
+            placeholder="—"
+            placeholderTextColor="#a0aec0"
+          />
+        </View>
+      </View>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setForm(null)}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={submit}>
+          <Text style={styles.primaryButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Athletes</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => setForm(EMPTY_FORM)}>
+            <Plus size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+            {form && renderForm(form)}
+
+            {athletes.length === 0 && !form && (
+              <Text style={styles.emptyText}>Add an athlete to tag throws and track progress per person.</Text>
+            )}
+
+            {athletes.map(athlete => (
+              <TouchableOpacity key={athlete.id} style={styles.athleteItem} onPress={() => setForm(toForm(athlete))}>
+                <View style={styles.athleteContent}>
+                  <Text style={styles.athleteName}>{athlete.name}</Text>
+                  <Text style={styles.athleteDetails}>
+                    {[
+                      `${athlete.throwingHand === 'left' ? 'Left' : 'Right'}-handed`,
+                      athleteEventLabel(athlete.event),
+                      athlete.heightCm ? `${athlete.heightCm} cm` : null,
+                      athlete.personalBest ? `PB ${athlete.personalBest.toFixed(2)} m` : null,
+                    ].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+                {activeAthlete?.id === athlete.id && <Check size={20} color="#10b981" />}
+                <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDelete(athlete)}>
+                  <Trash2 size={18} color="#ef4444" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  safeArea: { flex: 1 },
+  flex: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  title: { fontSize: 20, fontFamily: 'Inter-SemiBold', color: '#ffffff' },
+  scrollView: { flex: 1, paddingHorizontal: 20 },
+  card: { backgroundColor: '#fff', borderRadius: 16, padding: 20, marginBottom: 16 },
+  cardTitle: { fontSize: 18, fontFamily: 'Inter-SemiBold', color: '#1a202c', marginBottom: 8 },
+  label: { fontSize: 13, fontFamily: 'Inter-Medium', color: '#4a5568', marginTop: 12, marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#1a202c'
+  },
+  inputRow: { flexDirection: 'row', justifyContent: 'space-between' },
+  inputColumn: { width: '48%' },
+  optionRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f1f5f9',
+    marginRight: 8,
+    marginBottom: 8
+  },
+  optionActive: { backgroundColor: '#3182ce' },
+  optionText: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#4a5568' },
+  optionTextActive: { color: '#fff' },
+  formActions: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: 20 },
+  primaryButton: { backgroundColor: '#3182ce', borderRadius: 8, paddingVertical: 10, paddingHorizontal: 20, marginLeft: 8 },
+  primaryButtonText: { fontSize: 15, fontFamily: 'Inter-SemiBold', color: '#fff' },
+  secondaryButton: { borderRadius: 8, paddingVertical: 10, paddingHorizontal: 20, borderWidth: 1, borderColor: '#e2e8f0' },
+  secondaryButtonText: { fontSize: 15, fontFamily: 'Inter-Medium', color: '#4a5568' },
+  emptyText: { fontSize: 16, fontFamily: 'Inter-Medium', color: '#e2e8f0', textAlign: 'center', marginTop: 40 },
+  athleteItem: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  athleteContent: { flex: 1 },
+  athleteName: { fontSize: 16, fontFamily: 'Inter-SemiBold', color: '#1a202c' },
+  athleteDetails: { fontSize: 13, fontFamily: 'Inter-Regular', color: '#64748b', marginTop: 2 },
+  deleteButton: { padding: 8, marginLeft: 4 },
+});
@@ -0,0 +1,486 @@
+import { useState, useRef, useMemo, useEffect, RefObject } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, LayoutChangeEvent, StyleProp, ViewStyle } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import { ArrowLeft, Play, Pause, ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { AnalysisResult, PoseFrame, PoseLandmark } from '@/components/AIAnalysisEngine';
+import { PoseOverlay, findPoseFrameAt } from '@/components/PoseOverlay';
+import { VideoScrubber } from '@/components/VideoScrubber';
+import { getContentRect, Size } from '@/components/VideoLayout';
+import { computeBiomechanicalMetrics, formatMetric, METRIC_DEFINITIONS, METRIC_KEYS } from '@/components/BiomechanicsMetrics';
+import { detectThrowingHand } from '@/components/Handedness';
+import { landmarkIndex } from '@/components/JointRoles';
+import { segmentThrowPhases } from '@/components/PhaseSegmenter';
+import { POSE_LANDMARK_COUNT } from '@/components/PoseBackend';
+import { ThumbnailFrameSource } from '@/components/VideoFrameSource';
+import { parseAnalysisResult } from '@/src/api';
+import { ComparedThrow } from '@/src/compareSelection';
+
+type CompareMode = 'sideBySide' | 'overlay';
+
+const THROW_COLORS = ['#3b82f6', '#f97316'];
+const DEFAULT_FRAME_DURATION_MS = 1000 / 30; // used when neither the clip nor the poses give a frame rate
+const MAX_DRIFT_MS = 80; // resync the second video beyond this
+
+const LEFT_SHOULDER = landmarkIndex('left_shoulder');
+const RIGHT_SHOULDER = landmarkIndex('right_shoulder');
+const LEFT_HIP = landmarkIndex('left_hip');
+const RIGHT_HIP = landmarkIndex('right_hip');
+
+/**
+ * Server results carry no phases or metrics; derive them from the returned
+ * poses the same way the on-device engine does
+ */
+const withDerivedAnalysis = (results: AnalysisResult): AnalysisResult => {
+  if (results.phases && results.metrics) return results;
+  const poses = results.poseData.filter(frame => !frame.unreliable && frame.landmarks.length >= POSE_LANDMARK_COUNT);
+  const hand = results.throwingHand ?? detectThrowingHand(poses);
+  const phases = results.phases ?? segmentThrowPhases(poses, hand);
+  if (!phases) return results;
+  return { ...results, phases, metrics: results.metrics ?? computeBiomechanicalMetrics(poses, phases, hand) };
+};
+
+const parseThrow = (param?: string): ComparedThrow | null => {
+  if (!param) return null;
+  try {
+    const throwData = JSON.parse(param) as ComparedThrow;
+    return { ...throwData, results: withDerivedAnalysis(parseAnalysisResult(throwData.results)) };
+  } catch {
+    return null;
+  }
+};
+
+// Throws too short to find a release are aligned on their first frame
+const releaseOf = (throwData: ComparedThrow) => throwData.results.phases?.releaseTimestamp ?? 0;
+
+// Median spacing of the pose timestamps; the analysis sampled at most at the clip's frame rate
+const poseFrameDurationMs = (poseData: PoseFrame[]): number | null => {
+  const spacings = poseData
+    .slice(1)
+    .map((frame, i) => frame.timestamp - poseData[i].timestamp)
+    .filter(spacing => spacing > 0)
+    .sort((a, b) => a - b);
+  return spacings.length > 0 ? spacings[Math.floor(spacings.length / 2)] : null;
+};
+
+const hipsAndTorso = (landmarks: PoseLandmark[]) => {
+  const hipX = (landmarks[LEFT_HIP].x + landmarks[RIGHT_HIP].x) / 2;
+  const hipY = (landmarks[LEFT_HIP].y + landmarks[RIGHT_HIP].y) / 2;
+  const shoulderX = (landmarks[LEFT_SHOULDER].x + landmarks[RIGHT_SHOULDER].x) / 2;
+  const shoulderY = (landmarks[LEFT_SHOULDER].y + landmarks[RIGHT_SHOULDER].y) / 2;
+  return { hipX, hipY, torso: Math.hypot(shoulderX - hipX, shoulderY - hipY) || 1 };
+};
+
+/**
+ * Move a skeleton onto a reference skeleton: mid-hips coincide and the torso
+ * lengths match, so two throws filmed from different distances overlay
+ */
+const alignLandmarks = (landmarks: PoseLandmark[], reference: PoseLandmark[]): PoseLandmark[] => {
+  const source = hipsAndTorso(landmarks);
+  const target = hipsAndTorso(reference);
+  const scale = target.torso / source.torso;
+  return landmarks.map(landmark => ({
+    ...landmark,
+    x: target.hipX + (landmark.x - source.hipX) * scale,
+    y: target.hipY + (landmark.y - source.hipY) * scale
+  }));
+};
+
+const formatDifference = (key: (typeof METRIC_KEYS)[number], a?: number | null, b?: number | null) => {
+  if (a === null || a === undefined || b === null || b === undefined) return '—';
+  const difference = b - a;
+  return `${difference > 0 ? '+' : ''}${formatMetric(key, difference)}`;
+};
+
+interface ThrowPlayerProps {
+  uri: string;
+  videoRef: RefObject<Video | null>;
+  skeletons: { landmarks: PoseLandmark[]; color: string }[];
+  onStatus: (status: AVPlaybackStatus) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const ThrowPlayer = ({ uri, videoRef, skeletons, onStatus, style }: ThrowPlayerProps) => {
+  const [videoLayout, setVideoLayout] = useState<Size | null>(null);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+  const rect = videoLayout && naturalSize ? getContentRect(videoLayout, naturalSize) : null;
+
+  return (
+    <View style={[styles.player, style]}>
+      <Video
+        ref={videoRef}
+        source={{ uri }}
+        style={styles.video}
+        resizeMode={ResizeMode.CONTAIN}
+        progressUpdateIntervalMillis={33}
+        onLayout={(event: LayoutChangeEvent) => setVideoLayout(event.nativeEvent.layout)}
+        onReadyForDisplay={(event) => setNaturalSize(event.naturalSize)}
+        onPlaybackStatusUpdate={onStatus}
+      />
+      {rect && skeletons.map(({ landmarks, color }) => (
+        <View
+          key={color}
+          style={[styles.poseOverlay, { left: rect.left, top: rect.top }]}
+          pointerEvents="none"
+        >
+          <PoseOverlay landmarks={landmarks} width={rect.width} height={rect.height} tint={color} />
+        </View>
+      ))}
+    </View>
+  );
+};
+
+/**
+ * Two analyzed throws played time-aligned on their release frames
+ */
+export default function CompareScreen() {
+  const { first, second } = useLocalSearchParams<{ first?: string; second?: string }>();
+  const throws = useMemo(() => [parseThrow(first), parseThrow(second)], [first, second]);
+
+  const [mode, setMode] = useState<CompareMode>('sideBySide');
+  const [relativeMillis, setRelativeMillis] = useState(0); // playback time relative to release
+  const [durations, setDurations] = useState<[number, number]>([0, 0]);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const firstVideoRef = useRef<Video | null>(null);
+  const secondVideoRef = useRef<Video | null>(null);
+  const videoRefs = [firstVideoRef, secondVideoRef];
+  const positionsRef = useRef<[number, number]>([0, 0]);
+  const isScrubbingRef = useRef(false);
+
+  // Frame duration of each clip: read from local files, otherwise taken from the poses
+  const [frameDurations, setFrameDurations] = useState<[number | null, number | null]>([null, null]);
+  useEffect(() => {
+    let isMounted = true;
+    const frameSource = new ThumbnailFrameSource();
+    throws.forEach((throwData, index) => {
+      const fallback = throwData ? poseFrameDurationMs(throwData.results.poseData) : null;
+      const setDuration = (duration: number | null) => {
+        if (isMounted) setFrameDurations(previous => (index === 0 ? [duration, previous[1]] : [previous[0], duration]));
+      };
+      setDuration(fallback);
+      if (!throwData || throwData.videoUri.startsWith('http')) return;
+      frameSource.readMetadata(throwData.videoUri)
+        .then(metadata => { if (metadata.frameRate > 0) setDuration(1000 / metadata.frameRate); })
+        .catch(err => console.warn('Could not read video frame rate:', err?.message ?? err));
+    });
+    return () => { isMounted = false; };
+  }, [throws]);
+
+  useEffect(() => {
+    return () => {
+      // Guard: refs may already be null when unmounting quickly
+      [firstVideoRef, secondVideoRef].forEach(ref => {
+        ref.current?.unloadAsync().catch(() => { /* ignore */ });
+      });
+    };
+  }, []);
+
+  const [firstThrow, secondThrow] = throws;
+  if (!firstThrow || !secondThrow) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Two analyzed throws are needed to compare</Text>
+      </View>
+    );
+  }
+
+  const releases = [releaseOf(firstThrow), releaseOf(secondThrow)];
+  // Step by the shorter frame so neither clip skips a frame
+  const knownDurations = frameDurations.filter((duration): duration is number => duration !== null);
+  const frameStepMs = knownDurations.length > 0 ? Math.min(...knownDurations) : DEFAULT_FRAME_DURATION_MS;
+  const activeVideos = mode === 'sideBySide' ? [0, 1] : [0];
+
+  // Common span of both clips on the release-relative timeline
+  const rangeStart = Math.max(-releases[0], -releases[1]);
+  const rangeEnd = durations[0] > 0 && durations[1] > 0
+    ? Math.min(durations[0] - releases[0], durations[1] - releases[1])
+    : rangeStart;
+
+  const seekAll = async (relative: number) => {
+    const clamped = Math.min(Math.max(relative, rangeStart), Math.max(rangeStart, rangeEnd));
+    setRelativeMillis(clamped);
+    await Promise.all(activeVideos.map(index =>
+      videoRefs[index].current
+        ?.setPositionAsync(clamped + releases[index], { toleranceMillisBefore: 0, toleranceMillisAfter: 0 })
+        .catch(err => console.warn('Video seek error', err))
+    ));
+  };
+
+  const pauseAll = async () => {
+    await Promise.all(activeVideos.map(index => videoRefs[index].current?.pauseAsync().catch(() => {})));
+    setIsPlaying(false);
+  };
+
+  const togglePlayback = async () => {
+    if (isPlaying) {
+      await pauseAll();
+      return;
+    }
+    await seekAll(relativeMillis >= rangeEnd ? rangeStart : relativeMillis);
+    await Promise.all(activeVideos.map(index => videoRefs[index].current?.playAsync().catch(() => {})));
+    setIsPlaying(true);
+  };
+
+  const stepFrame = async (direction: 1 | -1) => {
+    if (isPlaying) await pauseAll();
+    await seekAll(relativeMillis + direction * frameStepMs);
+  };
+
+  const switchMode = async (nextMode: CompareMode) => {
+    if (nextMode === mode) return;
+    await pauseAll();
+    setMode(nextMode);
+  };
+
+  const handleStatus = (index: 0 | 1) => (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    positionsRef.current[index] = status.positionMillis;
+    if (status.durationMillis && status.durationMillis !== durations[index]) {
+      const duration = status.durationMillis;
+      setDurations(previous => (index === 0 ? [duration, previous[1]] : [previous[0], duration]));
+    }
+    if (index !== 0) return;
+
+    // The first video is the clock; the second follows it
+    if (!isScrubbingRef.current) setRelativeMillis(status.positionMillis - releases[0]);
+    if (status.didJustFinish || status.positionMillis - releases[0] >= rangeEnd) {
+      if (isPlaying) pauseAll();
+      return;
+    }
+    if (isPlaying && mode === 'sideBySide') {
+      const expected = status.positionMillis - releases[0] + releases[1];
+      if (Math.abs(positionsRef.current[1] - expected) > MAX_DRIFT_MS) {
+        secondVideoRef.current?.setPositionAsync(expected).catch(() => {});
+      }
+    }
+  };
+
+  const poseFrames = [firstThrow, secondThrow].map((throwData, index) =>
+    findPoseFrameAt(throwData.results.poseData ?? [], relativeMillis + releases[index])
+  );
+
+  const skeletonsFor = (index: 0 | 1) => {
+    const frame = poseFrames[index];
+    return frame ? [{ landmarks: frame.landmarks, color: THROW_COLORS[index] }] : [];
+  };
+
+  const overlaySkeletons = () => {
+    const [firstFrame, secondFrame] = poseFrames;
+    const skeletons = skeletonsFor(0);
+    if (secondFrame) {
+      skeletons.push({
+        landmarks: firstFrame ? alignLandmarks(secondFrame.landmarks, firstFrame.landmarks) : secondFrame.landmarks,
+        color: THROW_COLORS[1]
+      });
+    }
+    return skeletons;
+  };
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Compare Throws</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <View style={styles.modeRow}>
+            {(['sideBySide', 'overlay'] as CompareMode[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+                onPress={() => switchMode(option)}
+              >
+                <Text style={styles.modeText}>{option === 'sideBySide' ? 'Side by side' : 'Overlay'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {mode === 'sideBySide' ? (
+            <View style={styles.sideBySide}>
+              <ThrowPlayer
+                uri={firstThrow.videoUri}
+                videoRef={firstVideoRef}
+                skeletons={skeletonsFor(0)}
+                onStatus={handleStatus(0)}
+                style={styles.halfPlayer}
+              />
+              <ThrowPlayer
+                uri={secondThrow.videoUri}
+                videoRef={secondVideoRef}
+                skeletons={skeletonsFor(1)}
+                onStatus={handleStatus(1)}
+                style={styles.halfPlayer}
+              />
+            </View>
+          ) : (
+            <ThrowPlayer
+              uri={firstThrow.videoUri}
+              videoRef={firstVideoRef}
+              skeletons={overlaySkeletons()}
+              onStatus={handleStatus(0)}
+              style={styles.fullPlayer}
+            />
+          )}
+
+          <View style={styles.legend}>
+            {[firstThrow, secondThrow].map((throwData, index) => (
+              <View key={index} style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: THROW_COLORS[index] }]} />
+                <Text style={styles.legendText} numberOfLines={1}>{throwData.label}</Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.playerControls}>
+            <VideoScrubber
+              durationMillis={Math.max(0, rangeEnd - rangeStart)}
+              positionMillis={relativeMillis - rangeStart}
+              releaseTimestamp={-rangeStart}
+              onSeek={(millis) => seekAll(millis + rangeStart)}
+              onScrubStart={() => {
+                isScrubbingRef.current = true;
+                if (isPlaying) pauseAll();
+              }}
+              onScrubEnd={() => { isScrubbingRef.current = false; }}
+            />
+            <View style={styles.stepRow}>
+              <TouchableOpacity style={styles.stepButton} onPress={() => stepFrame(-1)}>
+                <ChevronLeft size={20} color="#fff" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.stepButton} onPress={togglePlayback}>
+                {isPlaying ? <Pause size={20} color="#fff" /> : <Play size={20} color="#fff" />}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.stepButton} onPress={() => stepFrame(1)}>
+                <ChevronRight size={20} color="#fff" />
+              </TouchableOpacity>
+              <Text style={styles.relativeText}>
+                {`${relativeMillis >= 0 ? '+' : ''}${(relativeMillis / 1000).toFixed(2)}s from release`}
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.tableContainer}>
+            <Text style={styles.tableTitle}>Differences</Text>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              <Text style={[styles.cellLabel, styles.headerText]}>Metric</Text>
+              <Text style={[styles.cell, styles.headerText, { color: THROW_COLORS[0] }]}>A</Text>
+              <Text style={[styles.cell, styles.headerText, { color: THROW_COLORS[1] }]}>B</Text>
+              <Text style={[styles.cell, styles.headerText]}>B − A</Text>
+            </View>
+            <View style={styles.tableRow}>
+              <Text style={styles.cellLabel}>Prediction</Text>
+              <Text style={styles.cell}>{firstThrow.results.prediction}</Text>
+              <Text style={styles.cell}>{secondThrow.results.prediction}</Text>
+              <Text style={styles.cell}>—</Text>
+            </View>
+            <View style={styles.tableRow}>
+              <Text style={styles.cellLabel}>Confidence</Text>
+              <Text style={styles.cell}>{Math.round(firstThrow.results.confidence * 100)}%</Text>
+              <Text style={styles.cell}>{Math.round(secondThrow.results.confidence * 100)}%</Text>
+              <Text style={styles.cell}>
+                {`${secondThrow.results.confidence >= firstThrow.results.confidence ? '+' : ''}${Math.round((secondThrow.results.confidence - firstThrow.results.confidence) * 100)}%`}
+              </Text>
+            </View>
+            {METRIC_KEYS.map(key => {
+              const a = firstThrow.results.metrics?.[key];
+              const b = secondThrow.results.metrics?.[key];
+              return (
+                <View key={key} style={styles.tableRow}>
+                  <Text style={styles.cellLabel}>{METRIC_DEFINITIONS[key].label}</Text>
+                  <Text style={styles.cell}>{formatMetric(key, a)}</Text>
+                  <Text style={styles.cell}>{formatMetric(key, b)}</Text>
+                  <Text style={styles.cell}>{formatDifference(key, a, b)}</Text>
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  title: { fontSize: 20, fontFamily: 'Inter-SemiBold', color: '#ffffff' },
+  placeholder: { width: 40 },
+  scrollView: { flex: 1, paddingHorizontal: 20 },
+  modeRow: { flexDirection: 'row', marginBottom: 12 },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    marginHorizontal: 4
+  },
+  modeButtonActive: { backgroundColor: '#3182ce' },
+  modeText: { fontSize: 14, fontFamily: 'Inter-SemiBold', color: '#fff' },
+  sideBySide: { flexDirection: 'row', justifyContent: 'space-between' },
+  player: { backgroundColor: '#000', borderRadius: 16, overflow: 'hidden' },
+  halfPlayer: { width: '49%', height: 260 },
+  fullPlayer: { width: '100%', height: 300 },
+  video: { width: '100%', height: '100%' },
+  poseOverlay: { position: 'absolute' },
+  legend: { flexDirection: 'row', justifyContent: 'space-between', marginTop: 10 },
+  legendItem: { flexDirection: 'row', alignItems: 'center', flex: 1, marginHorizontal: 4 },
+  legendDot: { width: 10, height: 10, borderRadius: 5, marginRight: 6 },
+  legendText: { fontSize: 13, fontFamily: 'Inter-Medium', color: '#fff', flexShrink: 1 },
+  playerControls: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginVertical: 16
+  },
+  stepRow: { flexDirection: 'row', alignItems: 'center', marginTop: 8 },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8
+  },
+  relativeText: { marginLeft: 'auto', fontSize: 13, fontFamily: 'Inter-Medium', color: 'rgba(255,255,255,0.8)' },
+  tableContainer: { backgroundColor: '#fff', borderRadius: 16, padding: 20, marginBottom: 20 },
+  tableTitle: { fontSize: 18, fontFamily: 'Inter-SemiBold', color: '#1a202c', marginBottom: 12 },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0'
+  },
+  tableHeader: { borderBottomColor: '#cbd5e0' },
+  headerText: { fontFamily: 'Inter-SemiBold', color: '#1a202c' },
+  cellLabel: { flex: 2, fontSize: 13, fontFamily: 'Inter-Medium', color: '#4a5568' },
+  cell: { flex: 1, fontSize: 13, fontFamily: 'Inter-Medium', color: '#1a202c', textAlign: 'right' },
+  errorContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#1a365d' },
+  errorText: { fontSize: 18, fontFamily: 'Inter-Medium', color: '#fff', textAlign: 'center', paddingHorizontal: 20 },
+});
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useMemo } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Platform, BackHandler } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Platform, BackHandler, LayoutChangeEvent } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -8,19 +8,38 @@ import * as Speech from 'expo-speech';
 import * as Sharing from 'expo-sharing';
 import * as FileSystem from 'expo-file-system';
 import * as Haptics from 'expo-haptics';
+import * as MediaLibrary from 'expo-media-library';
 import {
   ArrowLeft, Play, Pause, Volume2, Download, Share2,
   RotateCcw, CircleCheck as CheckCircle,
   TriangleAlert as AlertTriangle, Circle as XCircle,
-  Maximize2, Minimize2
+  Maximize2, Minimize2, ChevronLeft, ChevronRight, GitCompare
 } from 'lucide-react-native';
-import { aiAnalysisEngine } from '@/components/AIAnalysisEngine';
-
-interface AnalysisResults {
-  prediction: string;
-  confidence: number;
-  probabilities: { [key: string]: number };
-}
+import { AnalysisResult } from '@/components/AIAnalysisEngine';
+import { formatMetric, METRIC_DEFINITIONS, METRIC_KEYS } from '@/components/BiomechanicsMetrics';
+import { oppositeSide, ThrowingHand } from '@/components/Handedness';
+import { PoseOverlay, findPoseFrameAt } from '@/components/PoseOverlay';
+import { getContentRect, Size } from '@/components/VideoLayout';
+import { VideoScrubber } from '@/components/VideoScrubber';
+import { ThumbnailFrameSource } from '@/components/VideoFrameSource';
+import { clearPinnedThrow, getPinnedThrow, pinThrow } from '@/src/compareSelection';
+import { AthleteTag, getHistoryEntry, keepHistoryVideo, updateHistoryEntry } from '@/src/historyStore';
+import { loadSettings } from '@/src/settingsStore';
+import { InvalidResponseError, parseAnalysisResult } from '@/src/api';
+import { isServerUrl, serverHeaders } from '@/src/apiClient';
+import { getActiveServerProfile } from '@/src/serverStore';
+
+const PLAYBACK_RATES = [0.25, 0.5, 1];
+const DEFAULT_FRAME_DURATION_MS = 1000 / 30; // used when the clip's frame rate is unknown
+const WRIST_TRAIL_FRAMES = 10;
+
+type OverlayLayer = 'angles' | 'wristTrail' | 'shoulderLine';
+
+const OVERLAY_LAYER_LABELS: Record<OverlayLayer, string> = {
+  angles: 'Angles',
+  wristTrail: 'Wrist trail',
+  shoulderLine: 'Shoulder line'
+};
 
 /**
  * FeedbackScreen — FIXED version
@@ -30,11 +49,10 @@ interface AnalysisResults {
  * - Use refs for DownloadResumable and cached local path to avoid effect dependency loops.
  * - Cancel download/resumable on unmount.
  * - Safely stop/unload video on unmount and before deleting files.
- * - Dispose aiAnalysisEngine exactly once (on unmount).
  * - Guard state updates after unmount with isMounted flag.
  */
 export default function FeedbackScreen() {
-  const { videoUri, results } = useLocalSearchParams();
+  const { videoUri, results, historyId } = useLocalSearchParams<{ videoUri: string; results: string; historyId?: string }>();
   const videoRef = useRef<Video | null>(null);
 
   const [isPlaying, setIsPlaying] = useState(false);
@@ -49,16 +67,41 @@ export default function FeedbackScreen() {
   const [downloadProgress, setDownloadProgress] = useState(0);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isVideoLoading, setIsVideoLoading] = useState(true);
+  const [athlete, setAthlete] = useState<AthleteTag | null>(null);
+  const [recordedAt, setRecordedAt] = useState<number | null>(null);
+
+  // Pose overlay sync: playback position and where the video is drawn
+  const [positionMillis, setPositionMillis] = useState(0);
+  const [videoLayout, setVideoLayout] = useState<Size | null>(null);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+
+  // Frame-by-frame review
+  const [durationMillis, setDurationMillis] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [frameDurationMs, setFrameDurationMs] = useState(DEFAULT_FRAME_DURATION_MS);
+  const isScrubbingRef = useRef(false);
+  const [overlayLayers, setOverlayLayers] = useState<Record<OverlayLayer, boolean>>({
+    angles: false,
+    wristTrail: false,
+    shoulderLine: false
+  });
+  const wasPlayingRef = useRef(false);
 
   const videoUriString = useMemo(
     () => (Array.isArray(videoUri) ? videoUri[0] : videoUri) as string,
     [videoUri]
   );
 
-  const analysisResults: AnalysisResults | null = useMemo(
-    () => (results ? JSON.parse(results as string) : null),
-    [results]
-  );
+  // Results arrive as a route param; an unreadable or outdated payload shows an error instead of blank fields
+  const { analysisResults, resultsError } = useMemo(() => {
+    if (!results) return { analysisResults: null, resultsError: null };
+    try {
+      return { analysisResults: parseAnalysisResult(JSON.parse(results as string)), resultsError: null };
+    } catch (error) {
+      const message = error instanceof InvalidResponseError ? error.message : 'The analysis results are not readable.';
+      return { analysisResults: null, resultsError: message };
+    }
+  }, [results]);
 
   // ----------------------------
   // Caching & download effect
@@ -70,6 +113,14 @@ export default function FeedbackScreen() {
     const cacheVideo = async () => {
       if (!videoUriString) return;
 
+      // Videos reopened from history are already on the device
+      if (videoUriString.startsWith('file://')) {
+        cachedVideoUriRef.current = videoUriString;
+        setCachedVideoUri(videoUriString);
+        setIsVideoLoading(false);
+        return;
+      }
+
       try {
         const fileName = videoUriString.split('/').pop()?.split('?')[0] || `video-${Date.now()}.mp4`;
         const localUri = `${FileSystem.cacheDirectory}${fileName}`;
@@ -85,13 +136,15 @@ export default function FeedbackScreen() {
           return;
         }
 
-        // Start download
+        // Start download; the server's auth headers are only sent to its own host
         setIsDownloading(true);
         setDownloadProgress(0);
+        const profile = await getActiveServerProfile();
+        const headers = isServerUrl(profile, videoUriString) ? serverHeaders(profile) : {};
         const downloadResumable = FileSystem.createDownloadResumable(
           videoUriString,
           localUri,
-          {},
+          { headers },
           (progress) => {
             const p = progress.totalBytesExpectedToWrite > 0
               ? progress.totalBytesWritten / progress.totalBytesExpectedToWrite
@@ -189,18 +242,60 @@ export default function FeedbackScreen() {
   }, [videoUriString]);
 
   // ----------------------------
-  // aiAnalysisEngine dispose: call once on unmount
+  // Athlete this throw was tagged with
   // ----------------------------
   useEffect(() => {
-    return () => {
-      try {
-        // Dispose once when component unmounts
-        aiAnalysisEngine.dispose?.();
-      } catch (e) {
-        console.warn('Error disposing aiAnalysisEngine', e);
-      }
-    };
-  }, []);
+    if (!historyId) return;
+    let isMounted = true;
+    getHistoryEntry(historyId)
+      .then(entry => {
+        if (!isMounted) return;
+        setAthlete(entry?.athlete ?? null);
+        setRecordedAt(entry?.createdAt ?? null);
+      })
+      .catch(err => console.warn('Could not load history entry:', err?.message ?? err));
+    return () => { isMounted = false; };
+  }, [historyId]);
+
+  // ----------------------------
+  // Keep a copy of the downloaded video with the history entry
+  // ----------------------------
+  useEffect(() => {
+    if (!historyId || !cachedVideoUri) return;
+    keepHistoryVideo(historyId, cachedVideoUri)
+      .catch(err => console.warn('Could not keep video for history:', err?.message ?? err));
+  }, [historyId, cachedVideoUri]);
+
+  // ----------------------------
+  // Auto-save: copy the downloaded video to the gallery once per throw
+  // ----------------------------
+  useEffect(() => {
+    if (Platform.OS === 'web' || !historyId || !cachedVideoUri) return;
+    (async () => {
+      const [settings, entry] = await Promise.all([loadSettings(), getHistoryEntry(historyId)]);
+      if (!settings.autoSaveEnabled || !entry || entry.savedToGallery) return;
+
+      const permission = await MediaLibrary.requestPermissionsAsync(true);
+      if (!permission.granted) return;
+      await MediaLibrary.saveToLibraryAsync(cachedVideoUri);
+      await updateHistoryEntry(historyId, { savedToGallery: true });
+    })().catch(err => console.warn('Could not save video to gallery:', err?.message ?? err));
+  }, [historyId, cachedVideoUri]);
+
+  // ----------------------------
+  // Frame duration for stepping: read from the cached file; the remote
+  // stream falls back to 30 fps
+  // ----------------------------
+  useEffect(() => {
+    if (!cachedVideoUri) return;
+    let isMounted = true;
+    new ThumbnailFrameSource().readMetadata(cachedVideoUri)
+      .then(metadata => {
+        if (isMounted && metadata.frameRate > 0) setFrameDurationMs(1000 / metadata.frameRate);
+      })
+      .catch(err => console.warn('Could not read video frame rate:', err?.message ?? err));
+    return () => { isMounted = false; };
+  }, [cachedVideoUri]);
 
   // ----------------------------
   // Play audio feedback once (safe timer + cleanup)
@@ -270,7 +365,8 @@ export default function FeedbackScreen() {
     switch (prediction) {
       case 'Good Technique': return '#10b981';
       case 'Low Arm': return '#f59e0b';
-      case 'Poor Left Leg Block': return '#ef4444';
+      case 'Poor Left Leg Block':
+      case 'Poor Right Leg Block': return '#ef4444';
       case 'Both Errors': return '#dc2626';
       default: return '#64748b';
     }
@@ -280,22 +376,34 @@ export default function FeedbackScreen() {
     switch (prediction) {
       case 'Good Technique': return CheckCircle;
       case 'Low Arm':
-      case 'Poor Left Leg Block': return AlertTriangle;
+      case 'Poor Left Leg Block':
+      case 'Poor Right Leg Block': return AlertTriangle;
       case 'Both Errors': return XCircle;
       default: return AlertTriangle;
     }
   };
 
-  const generateFeedbackText = (prediction: string) => {
+  // Server results carry no hand, so the athlete's profile decides; failing
+  // that the prediction names the block leg, which is opposite the throwing arm
+  const getThrowingHand = (results: AnalysisResult): ThrowingHand => {
+    if (results.throwingHand) return results.throwingHand;
+    if (athlete?.throwingHand) return athlete.throwingHand;
+    return results.prediction === 'Poor Right Leg Block' ? 'left' : 'right';
+  };
+
+  const getBlockLeg = (results: AnalysisResult) => oppositeSide(getThrowingHand(results));
+
+  const generateFeedbackText = (prediction: string, blockLeg: ThrowingHand = 'left') => {
     switch (prediction) {
       case 'Good Technique':
         return 'Excellent throw! Your technique is spot on. Continue practicing to maintain this form.';
       case 'Low Arm':
         return 'Your arm position needs improvement. Focus on keeping your throwing arm higher during the release phase.';
       case 'Poor Left Leg Block':
-        return 'Work on your left leg blocking technique. A strong block will help transfer more power to your throw.';
+      case 'Poor Right Leg Block':
+        return `Work on your ${blockLeg} leg blocking technique. A strong block will help transfer more power to your throw.`;
       case 'Both Errors':
-        return 'Multiple technique issues detected. Focus on both your arm position and left leg blocking for better results.';
+        return `Multiple technique issues detected. Focus on both your arm position and ${blockLeg} leg blocking for better results.`;
       default:
         return 'Analysis complete. Review the feedback for improvement suggestions.';
     }
@@ -309,7 +417,7 @@ export default function FeedbackScreen() {
     if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
     setIsSpeaking(true);
     try {
-      Speech.speak(generateFeedbackText(analysisResults.prediction), {
+      Speech.speak(generateFeedbackText(analysisResults.prediction, getBlockLeg(analysisResults)), {
         language: 'en-US',
         pitch: 1.0,
         rate: 0.8,
@@ -340,6 +448,44 @@ export default function FeedbackScreen() {
     }
   };
 
+  const seekTo = async (millis: number) => {
+    if (!videoRef.current) return;
+    const target = Math.min(Math.max(0, millis), durationMillis || millis);
+    setPositionMillis(target); // move the overlay immediately
+    try {
+      await videoRef.current.setPositionAsync(target, { toleranceMillisBefore: 0, toleranceMillisAfter: 0 });
+    } catch (err) {
+      console.warn('Video seek error', err);
+    }
+  };
+
+  const stepFrame = async (direction: 1 | -1) => {
+    if (!videoRef.current) return;
+    if (isPlaying) {
+      await videoRef.current.pauseAsync().catch(() => {});
+      setIsPlaying(false);
+    }
+    const currentFrame = Math.round(positionMillis / frameDurationMs);
+    await seekTo((currentFrame + direction) * frameDurationMs);
+  };
+
+  const startScrubbing = () => {
+    isScrubbingRef.current = true;
+    wasPlayingRef.current = isPlaying;
+    if (isPlaying) {
+      videoRef.current?.pauseAsync().catch(() => {});
+      setIsPlaying(false);
+    }
+  };
+
+  const endScrubbing = () => {
+    isScrubbingRef.current = false;
+    if (wasPlayingRef.current) {
+      videoRef.current?.playAsync().catch(() => {});
+      setIsPlaying(true);
+    }
+  };
+
   const toggleFullscreen = async () => {
     if (!videoRef.current) return;
     try {
@@ -370,6 +516,32 @@ export default function FeedbackScreen() {
     Alert.alert('Download', 'Video with analysis overlay saved to your device.');
   };
 
+  // First press pins this throw; pressing Compare on another throw opens both
+  const compareThrow = () => {
+    if (!analysisResults) return;
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    // When the throw was analysed, not when Compare was pressed
+    const analysedAt = new Date(recordedAt ?? analysisResults.timestamp).toLocaleString();
+    const current = {
+      label: [athlete?.name, analysisResults.prediction, analysedAt].filter(Boolean).join(' · '),
+      videoUri: cachedVideoUri ?? videoUriString,
+      results: analysisResults
+    };
+    const pinned = getPinnedThrow();
+
+    if (!pinned || pinned.videoUri === current.videoUri) {
+      pinThrow(current);
+      Alert.alert('Throw pinned', 'Open another analysis and tap Compare to see both throws side by side.');
+      return;
+    }
+
+    clearPinnedThrow();
+    router.push({
+      pathname: '/compare',
+      params: { first: JSON.stringify(pinned), second: JSON.stringify(current) },
+    });
+  };
+
   const retryAnalysis = () => {
     if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
     router.push('../index');
@@ -378,7 +550,7 @@ export default function FeedbackScreen() {
   if (!analysisResults || !videoUriString) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>No analysis results or video available</Text>
+        <Text style={styles.errorText}>{resultsError ?? 'No analysis results or video available'}</Text>
       </View>
     );
   }
@@ -386,6 +558,13 @@ export default function FeedbackScreen() {
   const ResultIcon = getResultIcon(analysisResults.prediction);
   const resultColor = getResultColor(analysisResults.prediction);
 
+  const poseData = analysisResults.poseData ?? [];
+  const currentPoseFrame = findPoseFrameAt(poseData, positionMillis);
+  const overlayRect = videoLayout && naturalSize ? getContentRect(videoLayout, naturalSize) : null;
+  const wristTrail = currentPoseFrame
+    ? poseData.filter(frame => frame.timestamp < currentPoseFrame.timestamp).slice(-WRIST_TRAIL_FRAMES)
+    : [];
+
   return (
     <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
       <SafeAreaView style={styles.safeArea}>
@@ -417,6 +596,11 @@ export default function FeedbackScreen() {
                   resizeMode={ResizeMode.CONTAIN}
                   shouldPlay={isPlaying}
                   isLooping
+                  rate={playbackRate}
+                  shouldCorrectPitch
+                  progressUpdateIntervalMillis={33}
+                  onLayout={(event: LayoutChangeEvent) => setVideoLayout(event.nativeEvent.layout)}
+                  onReadyForDisplay={(event) => setNaturalSize(event.naturalSize)}
                   onLoad={() => setIsVideoLoading(false)}
                   onError={(err) => {
                     console.error('Video load/play error:', err);
@@ -425,8 +609,29 @@ export default function FeedbackScreen() {
                   }}
                   onPlaybackStatusUpdate={(status) => {
                     if ('isPlaying' in status) setIsPlaying(status.isPlaying || false);
+                    if (!status.isLoaded) return;
+                    if (status.durationMillis) setDurationMillis(status.durationMillis);
+                    // While dragging, the scrubber owns the position
+                    if (!isScrubbingRef.current) setPositionMillis(status.positionMillis);
                   }}
                 />
+                {currentPoseFrame && overlayRect && (
+                  <View
+                    style={[styles.poseOverlay, { left: overlayRect.left, top: overlayRect.top }]}
+                    pointerEvents="none"
+                  >
+                    <PoseOverlay
+                      landmarks={currentPoseFrame.landmarks}
+                      width={overlayRect.width}
+                      height={overlayRect.height}
+                      throwingHand={getThrowingHand(analysisResults)}
+                      showAngles={overlayLayers.angles}
+                      showShoulderLine={overlayLayers.shoulderLine}
+                      showWristTrail={overlayLayers.wristTrail}
+                      wristTrail={wristTrail}
+                    />
+                  </View>
+                )}
                 <View style={styles.videoOverlay}>
                   <View style={styles.controlsContainer}>
                     <TouchableOpacity style={styles.controlButton} onPress={toggleVideo}>
@@ -437,31 +642,95 @@ export default function FeedbackScreen() {
                     </TouchableOpacity>
                   </View>
                   <View style={styles.overlayInfo}>
-                    <Text style={styles.overlayText}>Video with pose overlay</Text>
+                    <Text style={styles.overlayText}>{poseData.length > 0 ? 'Video with pose overlay' : 'Analyzed video'}</Text>
                   </View>
                 </View>
               </>
             )}
           </View>
 
+          {!isDownloading && !isVideoLoading && (
+            <View style={styles.playerControls}>
+              <VideoScrubber
+                durationMillis={durationMillis}
+                positionMillis={positionMillis}
+                phases={analysisResults.phases?.phases}
+                releaseTimestamp={analysisResults.phases?.releaseTimestamp}
+                onSeek={seekTo}
+                onScrubStart={startScrubbing}
+                onScrubEnd={endScrubbing}
+              />
+              <View style={styles.stepRow}>
+                <TouchableOpacity style={styles.stepButton} onPress={() => stepFrame(-1)}>
+                  <ChevronLeft size={20} color="#fff" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.stepButton} onPress={toggleVideo}>
+                  {isPlaying ? <Pause size={20} color="#fff" /> : <Play size={20} color="#fff" />}
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.stepButton} onPress={() => stepFrame(1)}>
+                  <ChevronRight size={20} color="#fff" />
+                </TouchableOpacity>
+                <View style={styles.rateGroup}>
+                  {PLAYBACK_RATES.map(rate => (
+                    <TouchableOpacity
+                      key={rate}
+                      style={[styles.rateButton, playbackRate === rate && styles.rateButtonActive]}
+                      onPress={() => setPlaybackRate(rate)}
+                    >
+                      <Text style={styles.rateText}>{rate}x</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              {poseData.length > 0 && (
+                <View style={styles.layerRow}>
+                  {(Object.keys(OVERLAY_LAYER_LABELS) as OverlayLayer[]).map(layer => (
+                    <TouchableOpacity
+                      key={layer}
+                      style={[styles.layerChip, overlayLayers[layer] && styles.rateButtonActive]}
+                      onPress={() => setOverlayLayers(layers => ({ ...layers, [layer]: !layers[layer] }))}
+                    >
+                      <Text style={styles.rateText}>{OVERLAY_LAYER_LABELS[layer]}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
           <View style={styles.resultContainer}>
             <View style={[styles.resultHeader, { backgroundColor: resultColor }]}>
               <ResultIcon size={32} color="#fff" />
               <View style={styles.resultContent}>
                 <Text style={styles.resultTitle}>{analysisResults.prediction}</Text>
                 <Text style={styles.confidenceText}>{Math.round(analysisResults.confidence * 100)}% confidence</Text>
+                {athlete && <Text style={styles.confidenceText}>{athlete.name}</Text>}
               </View>
             </View>
 
             <View style={styles.feedbackSection}>
               <Text style={styles.feedbackTitle}>AI Feedback</Text>
-              <Text style={styles.feedbackText}>{generateFeedbackText(analysisResults.prediction)}</Text>
+              <Text style={styles.feedbackText}>
+                {generateFeedbackText(analysisResults.prediction, getBlockLeg(analysisResults))}
+              </Text>
               <TouchableOpacity style={styles.audioButton} onPress={isSpeaking ? stopAudioFeedback : playAudioFeedback}>
                 <Volume2 size={20} color="#3182ce" />
                 <Text style={styles.audioButtonText}>{isSpeaking ? 'Stop Speaking' : 'Play Audio Feedback'}</Text>
               </TouchableOpacity>
             </View>
 
+            {analysisResults.metrics && (
+              <View style={styles.metricsSection}>
+                <Text style={styles.probabilitiesTitle}>Biomechanics</Text>
+                {METRIC_KEYS.map((key) => (
+                  <View key={key} style={styles.metricItem}>
+                    <Text style={styles.metricLabel}>{METRIC_DEFINITIONS[key].label}</Text>
+                    <Text style={styles.metricValue}>{formatMetric(key, analysisResults.metrics?.[key])}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             <View style={styles.probabilitiesSection}>
               <Text style={styles.probabilitiesTitle}>Detailed Analysis</Text>
               {Object.entries(analysisResults.probabilities).map(([technique, probability]) => (
@@ -488,6 +757,11 @@ export default function FeedbackScreen() {
             <Text style={styles.secondaryButtonText}>Download</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.secondaryButton} onPress={compareThrow}>
+            <GitCompare size={20} color="#3182ce" />
+            <Text style={styles.secondaryButtonText}>Compare</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.secondaryButton} onPress={retryAnalysis}>
             <RotateCcw size={20} color="#3182ce" />
             <Text style={styles.secondaryButtonText}>Retry</Text>
@@ -533,6 +807,7 @@ const styles = StyleSheet.create({
     marginBottom: 20
   },
   video: { width: '100%', height: '100%' },
+  poseOverlay: { position: 'absolute' },
   videoOverlay: {
     position: 'absolute',
     top: 0, left: 0, right: 0, bottom: 0,
@@ -564,6 +839,36 @@ const styles = StyleSheet.create({
     borderRadius: 4
   },
   overlayText: { fontSize: 12, fontFamily: 'Inter-Medium', color: '#fff' },
+  playerControls: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 20
+  },
+  stepRow: { flexDirection: 'row', alignItems: 'center', marginTop: 8 },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8
+  },
+  rateGroup: { flexDirection: 'row', marginLeft: 'auto' },
+  rateButton: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, marginLeft: 4 },
+  rateButtonActive: { backgroundColor: '#3182ce' },
+  layerRow: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 10 },
+  layerChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)'
+  },
+  rateText: { fontSize: 13, fontFamily: 'Inter-SemiBold', color: '#fff' },
   resultContainer: {
     backgroundColor: '#fff',
     borderRadius: 16,
@@ -587,6 +892,10 @@ const styles = StyleSheet.create({
     borderRadius: 8, paddingVertical: 12, paddingHorizontal: 16, borderWidth: 1, borderColor: '#e2e8f0'
   },
   audioButtonText: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#3182ce', marginLeft: 8 },
+  metricsSection: { padding: 20, borderBottomWidth: 1, borderBottomColor: '#e2e8f0' },
+  metricItem: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  metricLabel: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#4a5568' },
+  metricValue: { fontSize: 14, fontFamily: 'Inter-SemiBold', color: '#1a202c' },
   probabilitiesSection: { padding: 20 },
   probabilitiesTitle: { fontSize: 18, fontFamily: 'Inter-SemiBold', color: '#1a202c', marginBottom: 16 },
   probabilityItem: { flexDirection: 'row', alignItems: 'center', marginBottom: 12 },
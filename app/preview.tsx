@@ -1,15 +1,21 @@
-import { aiAnalysisEngine } from '@/components/AIAnalysisEngine';
 import { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, BackHandler } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, BackHandler, Pressable, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Video, ResizeMode } from 'expo-av';
 import * as ImagePicker from 'expo-image-picker';
-import { ArrowLeft, Play, Pause, Upload, RotateCcw } from 'lucide-react-native';
+import { ArrowLeft, Play, Pause, Upload, RotateCcw, Crosshair } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
-import { BASE_URL } from '@/src/config';
-import axios from 'axios';
+import { NormalizedPoint } from '@/components/PersonTracker';
+import { getContentRect, Size } from '@/components/VideoLayout';
+import { AthleteSelector } from '@/components/AthleteSelector';
+import { getActiveAthlete } from '@/src/athleteStore';
+import { getActiveSession } from '@/src/sessionStore';
+import { SessionControl } from '@/components/SessionControl';
+import { processingParams, uploadQueue } from '@/src/uploadQueue';
+import { chooseAnalysisPath, onDeviceProcessingParams } from '@/src/analysisMode';
+import { loadSettings } from '@/src/settingsStore';
 
 interface UploadProgress {
   loaded: number;
@@ -25,8 +31,12 @@ export default function PreviewScreen() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [disableControls, setDisableControls] = useState(false);
   const [processingCount, setProcessingCount] = useState(0); // Track processing videos
+  const [videoLayout, setVideoLayout] = useState<Size | null>(null);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+  const [isSelectingThrower, setIsSelectingThrower] = useState(false);
+  const [throwerPoint, setThrowerPoint] = useState<NormalizedPoint | null>(null); // normalized to the video frame
+  const [durationMillis, setDurationMillis] = useState<number | null>(null); // picks the analysis path in auto mode
   const videoRef = useRef<Video>(null);
-  const abortController = useRef<AbortController | null>(null);
   const MAX_PROCESSING = 1; // Limit to 1 video at a time
 
   // 🔹 Handle hardware back button
@@ -63,18 +73,16 @@ export default function PreviewScreen() {
     }
     setIsPlaying(false);
     setSelectedVideo(null); // Ensure selectedVideo is cleared
+    setIsSelectingThrower(false);
+    setThrowerPoint(null);
+    setNaturalSize(null);
+    setDurationMillis(null);
   };
 
   // Cleanup on unmount
   useEffect(() => {
-    const controller = new AbortController();
-    abortController.current = controller;
-
+    // Queued uploads keep going after the screen closes
     return () => {
-      // Abort any ongoing uploads
-      if (abortController.current) {
-        abortController.current.abort();
-      }
       // Unload video
       unloadVideo();
       // Revoke the object URL if the video was loaded from the web
@@ -82,9 +90,7 @@ export default function PreviewScreen() {
         URL.revokeObjectURL(selectedVideo);
       }
     };
-    aiAnalysisEngine.dispose(); // Dispose of the AI engine
   }, []);
-  aiAnalysisEngine.dispose(); // Dispose of the AI engine
 
   const pickVideo = async () => {
     // Prevent picking a new video if the processing limit is reached to avoid memory issues
@@ -158,93 +164,112 @@ export default function PreviewScreen() {
     }
   };
 
+  // 🔹 Thrower selection: tap the thrower on the first frame so the tracker
+  // ignores coaches and other athletes in shot
+  const startThrowerSelection = async () => {
+    if (!videoRef.current) return;
+
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+
+    try {
+      await videoRef.current.pauseAsync();
+      await videoRef.current.setPositionAsync(0);
+      setIsPlaying(false);
+      setIsSelectingThrower(true);
+    } catch (error) {
+      console.error('Thrower selection error:', error);
+    }
+  };
+
+  const handleThrowerTap = (event: GestureResponderEvent) => {
+    if (!videoLayout || !naturalSize) return;
+
+    const rect = getContentRect(videoLayout, naturalSize);
+    const x = (event.nativeEvent.locationX - rect.left) / rect.width;
+    const y = (event.nativeEvent.locationY - rect.top) / rect.height;
+    if (x < 0 || x > 1 || y < 0 || y > 1) return; // tapped the letterbox
+
+    setThrowerPoint({ x, y });
+    setIsSelectingThrower(false);
+  };
+
+  const throwerMarker = throwerPoint && videoLayout && naturalSize
+    ? (() => {
+        const rect = getContentRect(videoLayout, naturalSize);
+        return { left: rect.left + throwerPoint.x * rect.width, top: rect.top + throwerPoint.y * rect.height };
+      })()
+    : null;
+
   const analyzeVideo = async () => {
     if (!selectedVideo) {
       Alert.alert('Error', 'No video selected.');
       return;
     }
 
-    await unloadVideo(); // Ensure previous video resources are released
+    // Only pause here: the clip stays selected until it has been handed off
+    if (videoRef.current) {
+      await videoRef.current.pauseAsync().catch(error => console.error('Error pausing video:', error));
+    }
+    setIsPlaying(false);
 
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
 
-    // Abort any previous upload
-    if (abortController.current) {
-      abortController.current.abort();
-    }
-
     setIsLoading(true);
     setProcessingCount(prevCount => prevCount + 1); // Increment processing count to limit simultaneous uploads
-    setStatusMessage('Uploading video...');
     setProgress(0);
 
     try {
-      const formData = new FormData();
-      let mimeType = 'video/mp4';
-      let fileName = 'video.mp4';
-
-      if (Platform.OS === 'web') {
-        const response = await fetch(selectedVideo);
-        const blob = await response.blob();
-
-        if (selectedVideo.endsWith('.mov')) {
-          mimeType = 'video/quicktime';
-          fileName = 'video.mov';
-        } else if (selectedVideo.endsWith('.avi')) {
-          mimeType = 'video/x-msvideo';
-          fileName = 'video.avi';
-        }
-
-        formData.append('video', blob, fileName);
-      } else {
-        if (selectedVideo.endsWith('.mov')) {
-          mimeType = 'video/quicktime';
-          fileName = 'video.mov';
-        } else if (selectedVideo.endsWith('.avi')) {
-          mimeType = 'video/x-msvideo';
-          fileName = 'video.avi';
-        }
-
-        formData.append('video', {
-          uri: Platform.OS === 'android' ? selectedVideo : selectedVideo.replace('file://', ''),
-          type: mimeType,
-          name: fileName,
-        } as any);
-      }
-
-      // Create new abort controller for this upload
-      const controller = new AbortController();
-      abortController.current = controller;
-
-      const response = await axios.post(`${BASE_URL}/upload`, formData, {
-        headers: { 'Content-Type': 'multipart/form-data' },
-        timeout: 300000,
-        signal: abortController.current.signal,
-        onUploadProgress: (progressEvent: { loaded: number; total?: number }) => {
-          const percentCompleted = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
-          setProgress(percentCompleted);
-        },
-      });
-
-      if (response.status === 202) {
-        setStatusMessage(response.data.message);
+      const [settings, athlete, session] = await Promise.all([loadSettings(), getActiveAthlete(), getActiveSession()]);
+      if (await chooseAnalysisPath(settings.analysisMode, durationMillis) === 'on-device') {
         router.push({
           pathname: '/processing',
-          params: { videoUri: selectedVideo, fileId: response.data.file_id, statusUrl: response.data.status_url },
+          params: onDeviceProcessingParams({
+            videoUri: selectedVideo,
+            throwerPoint,
+            athleteId: athlete?.id ?? null,
+            sessionId: session?.id ?? null,
+          }),
         });
-      } else {
-        throw new Error('Unexpected response status');
+        await unloadVideo();
+        return;
       }
-    } catch (error: any) {
-      if (axios.isCancel(error)) {
-        console.log('Upload cancelled');
+
+      // The clip is queued first so a failed upload is retried instead of lost
+      setStatusMessage('Uploading video...');
+      const job = await uploadQueue.submit(
+        {
+          videoUri: selectedVideo,
+          throwerPoint,
+          athleteId: athlete?.id ?? null,
+          sessionId: session?.id ?? null,
+        },
+        setProgress
+      );
+
+      if (job.status === 'processing') {
+        router.push({ pathname: '/processing', params: processingParams(job) });
+        await unloadVideo();
       } else {
-        console.error('Upload error:', error);
         setStatusMessage('');
-        Alert.alert('Upload Failed', error.response?.data?.error || error.message || 'Error uploading video.');
+        Alert.alert(
+          job.status === 'pending' ? 'Saved to Upload Queue' : 'Upload Failed',
+          job.status === 'pending'
+            ? 'The upload did not go through. Your clip is saved and will be uploaded automatically when the connection returns.'
+            : job.lastError ?? 'Error uploading video.',
+          [
+            { text: 'OK', style: 'cancel' },
+            { text: 'View Queue', onPress: () => router.push('/uploads') },
+          ]
+        );
       }
+    } catch (error: any) {
+      console.error('Upload error:', error);
+      setStatusMessage('');
+      Alert.alert('Upload Failed', error.message || 'Could not queue the video for upload.');
     } finally {
       setIsLoading(false);
       setProgress(0);
@@ -267,9 +292,12 @@ export default function PreviewScreen() {
           <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
             <ArrowLeft size={24} color="#ffffff" />
           </TouchableOpacity>
+          <AthleteSelector disabled={isLoading} />
           <View style={styles.placeholder} />
         </View>
 
+        <SessionControl disabled={isLoading} style={styles.sessionControl} />
+
         <View style={styles.content}>
           {selectedVideo ? (
             <View style={styles.videoContainer}>
@@ -280,20 +308,39 @@ export default function PreviewScreen() {
                 resizeMode={ResizeMode.CONTAIN}
                 shouldPlay={isPlaying}
                 isLooping={true}
+                onLayout={(event: LayoutChangeEvent) => setVideoLayout(event.nativeEvent.layout)}
+                onReadyForDisplay={(event) => setNaturalSize(event.naturalSize)}
                 onPlaybackStatusUpdate={(status: any) => {
                   if ('isPlaying' in status) setIsPlaying(status.isPlaying || false);
+                  if (status.isLoaded && status.durationMillis) setDurationMillis(status.durationMillis);
                   if (status.isLoaded === false && status.error) {
                     console.error('Video playback error:', status.error);
                     Alert.alert('Video Playback Error', 'Failed to play video');
                   }
                 }}
               />
+              {(isSelectingThrower || throwerMarker) && (
+                <Pressable
+                  style={styles.selectionOverlay}
+                  onPress={handleThrowerTap}
+                  pointerEvents={isSelectingThrower ? 'auto' : 'none'}
+                >
+                  {throwerMarker && (
+                    <View style={[styles.throwerMarker, { left: throwerMarker.left - 14, top: throwerMarker.top - 14 }]} />
+                  )}
+                </Pressable>
+              )}
               <View style={styles.controlsContainer}>
                 {!disableControls && (
-                  <TouchableOpacity style={styles.controlButton} onPress={toggleVideo}>
+                  <TouchableOpacity style={styles.controlButton} onPress={toggleVideo} disabled={isSelectingThrower}>
                     {isPlaying ? <Pause size={24} color="#ffffff" /> : <Play size={24} color="#ffffff" />}
                   </TouchableOpacity>
                 )}
+                {!disableControls && (
+                  <TouchableOpacity style={styles.controlButton} onPress={startThrowerSelection}>
+                    <Crosshair size={24} color={throwerPoint || isSelectingThrower ? '#3182ce' : '#ffffff'} />
+                  </TouchableOpacity>
+                )}
               </View>
             </View>
           ) : (
@@ -305,7 +352,11 @@ export default function PreviewScreen() {
 
           <View style={styles.infoContainer}>
             <Text style={styles.infoTitle}>Ready for Analysis</Text>
-            <Text style={styles.infoText}>{statusMessage || 'Our AI will analyze your javelin throw.'}</Text>
+            <Text style={styles.infoText}>
+              {isSelectingThrower
+                ? 'Tap the thrower in the first frame.'
+                : statusMessage || 'Our AI will analyze your javelin throw.'}
+            </Text>
             {isLoading && (
               <View style={styles.progressContainer}>
                 <View style={styles.progressBar}>
@@ -326,7 +377,7 @@ export default function PreviewScreen() {
                 colors={!selectedVideo || isLoading ? ['#94a3b8', '#94a3b8'] : ['#3182ce', '#2563eb']}
                 style={styles.buttonGradient}
               >
-                <Text style={styles.primaryButtonText}>{isLoading ? 'Uploading...' : 'Upload and Analyze'}</Text>
+                <Text style={styles.primaryButtonText}>{isLoading ? 'Uploading...' : 'Analyze'}</Text>
               </LinearGradient>
             </TouchableOpacity>
 
@@ -372,6 +423,9 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 40,
   },
+  sessionControl: {
+    marginBottom: 16,
+  },
   content: {
     flex: 1,
     paddingHorizontal: 20,
@@ -402,6 +456,22 @@ const styles = StyleSheet.create({
     padding: 8,
     borderRadius: 20,
   },
+  selectionOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 300,
+  },
+  throwerMarker: {
+    position: 'absolute',
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 3,
+    borderColor: '#3182ce',
+    backgroundColor: 'rgba(49, 130, 206, 0.25)',
+  },
   placeholderContainer: {
     height: 300,
     justifyContent: 'center',
@@ -1,118 +1,182 @@
 import { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, Animated, Dimensions, Alert } from 'react-native';
+import { View, Text, StyleSheet, Animated, Dimensions, Alert, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Target, Brain, Zap, CircleCheck as CheckCircle } from 'lucide-react-native';
-import { BASE_URL } from '@/src/config';
-import axios from 'axios';
-import { aiAnalysisEngine } from '@/components/AIAnalysisEngine';
+import * as Haptics from 'expo-haptics';
+import { AnalysisResult } from '@/components/AIAnalysisEngine';
+import { loadSettings } from '@/src/settingsStore';
+import { ProcessingStage, ProcessingStatus } from '@/src/api';
+import { serverUrl } from '@/src/apiClient';
+import { getActiveServerProfile } from '@/src/serverStore';
+import { StatusWatcher } from '@/src/statusTransport';
+import { uploadQueue } from '@/src/uploadQueue';
+import { analyzeOnDevice } from '@/src/analysisMode';
 
 const { width } = Dimensions.get('window');
 
 export default function ProcessingScreen() {
-  const { videoUri, fileId, statusUrl } = useLocalSearchParams();
+  const { videoUri, fileId, statusUrl, jobId, mode, throwerX, throwerY, athleteId, sessionId } = useLocalSearchParams<{
+    videoUri: string;
+    fileId: string;
+    statusUrl: string;
+    jobId: string;
+    mode?: 'on-device';
+    throwerX?: string;
+    throwerY?: string;
+    athleteId?: string;
+    sessionId?: string;
+  }>();
   const [currentStep, setCurrentStep] = useState(0);
   const progress = useRef(new Animated.Value(0)).current;
   const scaleValue = useRef(new Animated.Value(1)).current;
-  const abortController = useRef<AbortController | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('Processing your throw...');
+  const [connectionIssue, setConnectionIssue] = useState<string | null>(null);
 
-  const steps = [
-    { icon: Target, title: 'Detecting Athlete', subtitle: 'Using YOLOv8 object detection', duration: 2000 },
-    { icon: Brain, title: 'Analyzing Pose', subtitle: 'MediaPipe pose estimation', duration: 3000 },
-    { icon: Zap, title: 'AI Processing', subtitle: 'Neural network analysis', duration: 2500 },
-    { icon: CheckCircle, title: 'Generating Feedback', subtitle: 'Creating visual overlay', duration: 1500 },
+  const steps: { icon: typeof Target; title: string; subtitle: string; stage: ProcessingStage }[] = [
+    { icon: Target, title: 'Detecting Athlete', subtitle: 'Using YOLOv8 object detection', stage: 'detecting' },
+    { icon: Brain, title: 'Analyzing Pose', subtitle: 'MediaPipe pose estimation', stage: 'pose' },
+    { icon: Zap, title: 'AI Processing', subtitle: 'Neural network analysis', stage: 'classifying' },
+    { icon: CheckCircle, title: 'Generating Feedback', subtitle: 'Creating visual overlay', stage: 'rendering' },
   ];
 
-  const statusInterval = useRef<number | null>(null);
   const hasNavigated = useRef(false);
 
-  // Animate steps sequentially
+  // Pulse the icon whenever the server moves to the next stage
   useEffect(() => {
-    const animateSteps = async () => {
-      for (let i = 0; i < steps.length; i++) {
-        setCurrentStep(i);
-
-        Animated.timing(progress, {
-          toValue: (i + 1) / steps.length,
-          duration: steps[i].duration,
-          useNativeDriver: false,
-        }).start();
-
-        Animated.sequence([
-          Animated.timing(scaleValue, { toValue: 1.2, duration: 300, useNativeDriver: true }),
-          Animated.timing(scaleValue, { toValue: 1, duration: 300, useNativeDriver: true }),
-        ]).start();
-
-        await new Promise(resolve => setTimeout(resolve, steps[i].duration));
+    Animated.sequence([
+      Animated.timing(scaleValue, { toValue: 1.2, duration: 300, useNativeDriver: true }),
+      Animated.timing(scaleValue, { toValue: 1, duration: 300, useNativeDriver: true }),
+    ]).start();
+  }, [currentStep]);
+
+  const animateProgress = (value: number) => {
+    Animated.timing(progress, { toValue: value, duration: 400, useNativeDriver: false }).start();
+  };
+
+  const showStage = (stage: ProcessingStage) => {
+    const stepIndex = steps.findIndex(step => step.stage === stage);
+    if (stepIndex < 0) return;
+    setCurrentStep(stepIndex);
+    animateProgress(stepIndex / steps.length);
+  };
+
+  const showFeedback = async (results: AnalysisResult, resultVideoUri: string, historyId?: string) => {
+    setStatusMessage('Processing complete!');
+    animateProgress(1);
+
+    router.push({
+      pathname: '/feedback',
+      params: { videoUri: resultVideoUri, results: JSON.stringify(results), historyId },
+    });
+
+    const { notificationsEnabled } = await loadSettings();
+    if (notificationsEnabled) {
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
       }
-    };
+      Alert.alert(
+        'Analysis complete',
+        `${results.prediction} (${Math.round(results.confidence * 100)}% confidence)`
+      );
+    }
+  };
+
+  // Analyze on the device when the clip was routed here instead of uploaded
+  useEffect(() => {
+    if (mode !== 'on-device' || !videoUri) return;
+    let isMounted = true;
+    setStatusMessage('Analyzing on this device...');
+
+    analyzeOnDevice(
+      {
+        videoUri,
+        throwerPoint: throwerX && throwerY ? { x: Number(throwerX), y: Number(throwerY) } : null,
+        athleteId: athleteId ?? null,
+        sessionId: sessionId ?? null,
+      },
+      stage => {
+        if (isMounted) showStage(stage);
+      }
+    )
+      .then(({ result, historyId }) => {
+        if (!isMounted) return;
+        hasNavigated.current = true;
+        showFeedback(result, videoUri, historyId);
+      })
+      .catch(error => {
+        if (!isMounted) return;
+        hasNavigated.current = true;
+        Alert.alert('Analysis Failed', error?.message ?? 'The clip could not be analyzed on this device.', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+      });
 
-    animateSteps();
-  }, []);
+    return () => {
+      isMounted = false;
+    };
+  }, [mode, videoUri]);
 
-  // Poll server for processing status
+  // Follow the server's processing status until it completes
   useEffect(() => {
     if (!fileId || !statusUrl) return;
 
-    // Create new abort controller for this request
-    abortController.current = new AbortController();
+    // This screen follows the job itself; the queue resumes if it closes early
+    uploadQueue.watch(jobId);
 
-    const checkStatus = async () => {
+    const handleCompleted = async (update: Extract<ProcessingStatus, { status: 'completed' }>) => {
+      if (hasNavigated.current) return;
+      hasNavigated.current = true;
       try {
-        if (!abortController.current) return;
-        
-        const response = await axios.get(`${BASE_URL}${statusUrl}`, {
-          headers: { 'ngrok-skip-browser-warning': 'true' },
-          signal: abortController.current.signal,
-        });
-
-        if (response.data.status === 'completed') {
-          const results = response.data.result;
-          const DownloadUrl = `${BASE_URL}${response.data.video_url}`;
-          setStatusMessage('Processing complete!');
-    
-          if (!hasNavigated.current) {
-            hasNavigated.current = true;
-            // Clean up resources before navigation
-            if (statusInterval.current) clearInterval(statusInterval.current);
-            if (abortController.current) abortController.current.abort();
-            aiAnalysisEngine.dispose();
-    
-            router.push({
-              pathname: '/feedback',
-              params: { videoUri: DownloadUrl, results: JSON.stringify(results) },
-            });
-          }
-        } else if (response.data.status === 'processing') {
-          setStatusMessage(response.data.message);
-        }
+        const downloadUrl = serverUrl(await getActiveServerProfile(), update.videoUrl);
+
+        // Keep the result even if the user navigates away from feedback
+        const historyId = await uploadQueue.complete(jobId, update.result, downloadUrl);
+        await showFeedback(update.result, downloadUrl, historyId);
       } catch (error: any) {
-        if (!axios.isCancel(error)) {
-          console.error('Status check error:', error);
-          if (!hasNavigated.current) {
-            Alert.alert(
-              'Processing Failed',
-              error.response?.data?.error || error.message || 'There was an error processing your video.',
-              [{ text: 'OK', onPress: () => router.push('/preview') }]
-            );
-            hasNavigated.current = true;
-          }
-        }
-        if (statusInterval.current) clearInterval(statusInterval.current);
+        hasNavigated.current = false;
+        handleFailed(error?.message ?? 'The finished analysis could not be opened');
       }
     };
 
-    statusInterval.current = setInterval(checkStatus, 2000) as unknown as number;
+    const handleFailed = (message: string) => {
+      if (hasNavigated.current) return;
+      hasNavigated.current = true;
+      uploadQueue.fail(jobId, message);
+      Alert.alert('Processing Failed', message, [
+        { text: 'View Queue', onPress: () => router.replace('/uploads') },
+        { text: 'OK', onPress: () => router.push('/preview') },
+      ]);
+    };
+
+    const watcher = new StatusWatcher(statusUrl, {
+      onUpdate: update => {
+        if (update.status === 'completed') {
+          handleCompleted(update);
+        } else if (update.status === 'failed') {
+          handleFailed(update.error);
+        } else {
+          // Without a reported fraction, count the stages already finished
+          if (update.stage) showStage(update.stage);
+          if (update.progress !== null) animateProgress(update.progress);
+          if (update.message) setStatusMessage(update.message);
+        }
+      },
+      onConnectionIssue: setConnectionIssue,
+      onFatal: handleFailed,
+    });
+    watcher.start().catch(error => {
+      console.warn('Could not follow processing status:', error);
+      setConnectionIssue('Connection lost, retrying...');
+    });
 
     return () => {
       // Clean up resources on unmount
-      if (statusInterval.current) clearInterval(statusInterval.current);
-      if (abortController.current) abortController.current.abort();
-      if (!hasNavigated.current) aiAnalysisEngine.dispose();
+      watcher.close();
+      uploadQueue.unwatch(jobId);
     };
-  }, [fileId, statusUrl]);
+  }, [fileId, statusUrl, jobId]);
 
   const CurrentIcon = steps[currentStep]?.icon || Target;
 
@@ -121,7 +185,8 @@ export default function ProcessingScreen() {
       <SafeAreaView style={styles.safeArea}>
         <View style={styles.content}>
           <Text style={styles.title}>Analyzing Your Throw</Text>
-          <Text style={styles.subtitle}>{statusMessage}</Text>
+          <Text style={[styles.subtitle, connectionIssue !== null && styles.subtitleWithNotice]}>{statusMessage}</Text>
+          {connectionIssue && <Text style={styles.connectionNotice}>{connectionIssue}</Text>}
 
           <View style={styles.progressContainer}>
             <Animated.View style={[styles.iconContainer, { transform: [{ scale: scaleValue }] }]}>
@@ -186,6 +251,8 @@ const styles = StyleSheet.create({
   content: { flex: 1, paddingHorizontal: 20, justifyContent: 'center', alignItems: 'center' },
   title: { fontSize: 28, fontFamily: 'Inter-Bold', color: '#ffffff', textAlign: 'center', marginBottom: 8 },
   subtitle: { fontSize: 16, fontFamily: 'Inter-Medium', color: '#e2e8f0', textAlign: 'center', marginBottom: 60 },
+  subtitleWithNotice: { marginBottom: 8 },
+  connectionNotice: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#f6ad55', textAlign: 'center', marginBottom: 32 },
   progressContainer: { alignItems: 'center', marginBottom: 60 },
   iconContainer: {
     width: 120,
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import {
+  View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, KeyboardAvoidingView, Platform, ActivityIndicator
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Plus, Trash2, Check, Pencil, Wifi } from 'lucide-react-native';
+import { useServerProfiles } from '@/hooks/useServerProfiles';
+import { ConnectionCheck, testConnection } from '@/src/apiClient';
+import { deleteServerProfile, saveServerProfile, ServerProfile, ServerProfileDraft } from '@/src/serverStore';
+
+interface ServerForm {
+  id?: string;
+  name: string;
+  baseUrl: string;
+  authToken: string;
+  headers: string; // one `Name: value` pair per line
+}
+
+const EMPTY_FORM: ServerForm = { name: '', baseUrl: 'https://', authToken: '', headers: '' };
+
+const toForm = (profile: ServerProfile): ServerForm => ({
+  id: profile.id,
+  name: profile.name,
+  baseUrl: profile.baseUrl,
+  authToken: profile.authToken ?? '',
+  headers: Object.entries(profile.headers).map(([name, value]) => `${name}: ${value}`).join('\n'),
+});
+
+// Lines without a colon are ignored
+const parseHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n').flatMap(line => {
+      const separator = line.indexOf(':');
+      const name = line.slice(0, separator).trim();
+      return separator > 0 && name ? [[name, line.slice(separator + 1).trim()]] : [];
+    })
+  );
+
+const toDraft = (form: ServerForm): ServerProfileDraft => ({
+  name: form.name.trim(),
+  baseUrl: form.baseUrl.trim(),
+  authToken: form.authToken.trim() || null,
+  headers: parseHeaders(form.headers),
+});
+
+export default function ServersScreen() {
+  const { profiles, activeProfile, selectProfile, refresh } = useServerProfiles();
+  const [form, setForm] = useState<ServerForm | null>(null);
+  const [check, setCheck] = useState<ConnectionCheck | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const openForm = (next: ServerForm | null) => {
+    setForm(next);
+    setCheck(null);
+  };
+
+  const updateForm = (changes: Partial<ServerForm>) => {
+    setForm(current => (current ? { ...current, ...changes } : current));
+    setCheck(null);
+  };
+
+  const validate = (current: ServerForm): string | null => {
+    if (!current.name.trim()) return 'Enter a name for this server.';
+    if (!/^https?:\/\/[^/\s]+/i.test(current.baseUrl.trim())) return 'Enter a URL starting with http:// or https://.';
+    return null;
+  };
+
+  const runCheck = async () => {
+    if (!form) return;
+    const problem = validate(form);
+    if (problem) return Alert.alert('Invalid server', problem);
+
+    setIsChecking(true);
+    setCheck(await testConnection({ ...toDraft(form), id: form.id ?? 'draft' }));
+    setIsChecking(false);
+  };
+
+  const submit = async () => {
+    if (!form) return;
+    const problem = validate(form);
+    if (problem) return Alert.alert('Invalid server', problem);
+
+    try {
+      const saved = await saveServerProfile(toDraft(form), form.id);
+      // A new server becomes the active one
+      if (!form.id) await selectProfile(saved);
+      openForm(null);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to save server:', error);
+      Alert.alert('Error', 'Failed to save server.');
+    }
+  };
+
+  const confirmDelete = (profile: ServerProfile) => {
+    Alert.alert(
+      'Delete server',
+      `Delete ${profile.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteServerProfile(profile.id);
+            await refresh();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderForm = (current: ServerForm) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{current.id ? 'Edit server' : 'New server'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={current.name}
+        onChangeText={name => updateForm({ name })}
+        placeholder="e.g. Club laptop"
+        placeholderTextColor="#a0aec0"
+      />
+
+      <Text style={styles.label}>Base URL</Text>
+      <TextInput
+        style={styles.input}
+        value={current.baseUrl}
+        onChangeText={baseUrl => updateForm({ baseUrl })}
+        placeholder="https://example.ngrok-free.app"
+        placeholderTextColor="#a0aec0"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+
+      <Text style={styles.label}>Auth token (optional)</Text>
+      <TextInput
+        style={styles.input}
+        value={current.authToken}
+        onChangeText={authToken => updateForm({ authToken })}
+        placeholder="Sent as a bearer token"
+        placeholderTextColor="#a0aec0"
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+      />
+
+      <Text style={styles.label}>Custom headers (one per line)</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={current.headers}
+        onChangeText={headers => updateForm({ headers })}
+        placeholder="ngrok-skip-browser-warning: true"
+        placeholderTextColor="#a0aec0"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+      />
+
+      {check && (
+        <Text style={[styles.checkResult, { color: check.ok ? '#10b981' : '#ef4444' }]}>{check.message}</Text>
+      )}
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={[styles.secondaryButton, styles.testButton]} onPress={runCheck} disabled={isChecking}>
+          {isChecking ? <ActivityIndicator size="small" color="#3182ce" /> : <Wifi size={16} color="#3182ce" />}
+          <Text style={[styles.secondaryButtonText, styles.testButtonText]}>Test</Text>
+        </TouchableOpacity>
+        <View style={styles.flex} />
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => openForm(null)}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={submit}>
+          <Text style={styles.primaryButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Analysis Server</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => openForm(EMPTY_FORM)}>
+            <Plus size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+            {form && renderForm(form)}
+
+            <Text style={styles.hint}>Tap a server to use it for uploads.</Text>
+
+            {profiles.map(profile => (
+              <TouchableOpacity key={profile.id} style={styles.profileItem} onPress={() => selectProfile(profile)}>
+                <View style={styles.profileContent}>
+                  <Text style={styles.profileName}>{profile.name}</Text>
+                  <Text style={styles.profileDetails} numberOfLines={1}>
+                    {[profile.baseUrl, profile.authToken ? 'Token' : null].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+                {activeProfile?.id === profile.id && <Check size={20} color="#10b981" />}
+                <TouchableOpacity style={styles.iconButton} onPress={() => openForm(toForm(profile))}>
+                  <Pencil size={18} color="#3182ce" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => confirmDelete(profile)}>
+                  <Trash2 size={18} color="#ef4444" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  safeArea: { flex: 1 },
+  flex: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  title: { fontSize: 20, fontFamily: 'Inter-SemiBold', color: '#ffffff' },
+  scrollView: { flex: 1, paddingHorizontal: 20 },
+  card: { backgroundColor: '#fff', borderRadius: 16, padding: 20, marginBottom: 16 },
+  cardTitle: { fontSize: 18, fontFamily: 'Inter-SemiBold', color: '#1a202c', marginBottom: 8 },
+  label: { fontSize: 13, fontFamily: 'Inter-Medium', color: '#4a5568', marginTop: 12, marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#1a202c'
+  },
+  multilineInput: { minHeight: 72, textAlignVertical: 'top' },
+  checkResult: { fontSize: 14, fontFamily: 'Inter-Medium', marginTop: 12 },
+  formActions: { flexDirection: 'row', alignItems: 'center', marginTop: 20 },
+  primaryButton: { backgroundColor: '#3182ce', borderRadius: 8, paddingVertical: 10, paddingHorizontal: 20, marginLeft: 8 },
+  primaryButtonText: { fontSize: 15, fontFamily: 'Inter-SemiBold', color: '#fff' },
+  secondaryButton: { borderRadius: 8, paddingVertical: 10, paddingHorizontal: 20, borderWidth: 1, borderColor: '#e2e8f0' },
+  secondaryButtonText: { fontSize: 15, fontFamily: 'Inter-Medium', color: '#4a5568' },
+  testButton: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 14 },
+  testButtonText: { color: '#3182ce', marginLeft: 6 },
+  hint: { fontSize: 14, fontFamily: 'Inter-Regular', color: '#e2e8f0', marginBottom: 12 },
+  profileItem: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  profileContent: { flex: 1 },
+  profileName: { fontSize: 16, fontFamily: 'Inter-SemiBold', color: '#1a202c' },
+  profileDetails: { fontSize: 13, fontFamily: 'Inter-Regular', color: '#64748b', marginTop: 2 },
+  iconButton: { padding: 8, marginLeft: 4 },
+});
@@ -0,0 +1,207 @@
+import { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Haptics from 'expo-haptics';
+import { ArrowLeft, Share2, Trophy, TriangleAlert as AlertTriangle, ChevronRight } from 'lucide-react-native';
+import { HistoryEntry, historyFeedbackParams, loadHistory } from '@/src/historyStore';
+import { getSession, TrainingSession } from '@/src/sessionStore';
+import { sessionReportCsv, summarizeSession } from '@/src/sessionSummary';
+
+const getResultColor = (prediction: string) => {
+  switch (prediction) {
+    case 'Good Technique': return '#10b981';
+    case 'Low Arm': return '#f59e0b';
+    case 'Poor Left Leg Block':
+    case 'Poor Right Leg Block': return '#ef4444';
+    case 'Both Errors': return '#dc2626';
+    default: return '#64748b';
+  }
+};
+
+export default function SessionScreen() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const [session, setSession] = useState<TrainingSession | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!sessionId) return;
+      (async () => {
+        setSession(await getSession(sessionId));
+        setEntries((await loadHistory()).filter(entry => entry.sessionId === sessionId));
+      })().catch(error => console.warn('Failed to load session throws:', error));
+    }, [sessionId])
+  );
+
+  const summary = useMemo(() => summarizeSession(entries), [entries]);
+
+  const openThrow = async (entry: HistoryEntry) => {
+    try {
+      router.push({ pathname: '/feedback', params: await historyFeedbackParams(entry) });
+    } catch (error: any) {
+      Alert.alert('Could not open throw', error?.message ?? 'The saved analysis could not be read.');
+    }
+  };
+
+  const exportSession = async () => {
+    if (!session) return;
+    if (!(await Sharing.isAvailableAsync())) {
+      return Alert.alert('Sharing not supported', 'Sharing is not available on this platform.');
+    }
+    try {
+      if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
+      const fileName = `${session.name.replace(/[^\w-]+/g, '_')}.csv`;
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, sessionReportCsv(session, entries, summary));
+      await Sharing.shareAsync(uri, { mimeType: 'text/csv', dialogTitle: 'Export Session Summary' });
+    } catch (err) {
+      console.warn('Session export error', err);
+      Alert.alert('Error', 'Failed to export the session summary.');
+    }
+  };
+
+  if (!session) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Session not found</Text>
+      </View>
+    );
+  }
+
+  const ThrowCard = ({ title, entry, icon }: { title: string; entry: HistoryEntry; icon: React.ReactNode }) => (
+    <TouchableOpacity style={styles.throwCard} onPress={() => openThrow(entry)}>
+      {icon}
+      <View style={styles.throwCardContent}>
+        <Text style={styles.throwCardTitle}>{title}</Text>
+        <Text style={styles.throwCardSubtitle}>
+          {`${entry.result.prediction} · ${new Date(entry.createdAt).toLocaleTimeString()}`}
+        </Text>
+      </View>
+      <ChevronRight size={20} color="#94a3b8" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>{session.name}</Text>
+          <TouchableOpacity style={styles.backButton} onPress={exportSession}>
+            <Share2 size={22} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <Text style={styles.sessionDates}>
+            {`${new Date(session.startedAt).toLocaleString()} – ${
+              session.endedAt ? new Date(session.endedAt).toLocaleTimeString() : 'in progress'
+            }`}
+          </Text>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{`${summary.throwCount} ${summary.throwCount === 1 ? 'throw' : 'throws'}`}</Text>
+            {Object.entries(summary.countsByPrediction).map(([prediction, count]) => (
+              <View key={prediction} style={styles.countItem}>
+                <Text style={styles.countLabel}>{prediction}</Text>
+                <View style={styles.countBar}>
+                  <View
+                    style={[
+                      styles.countFill,
+                      { width: `${(count / summary.throwCount) * 100}%`, backgroundColor: getResultColor(prediction) }
+                    ]}
+                  />
+                </View>
+                <Text style={styles.countValue}>{count}</Text>
+              </View>
+            ))}
+            {summary.throwCount === 0 && <Text style={styles.emptyText}>No throws were analyzed in this session.</Text>}
+          </View>
+
+          {summary.mostFrequentError && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Most frequent error</Text>
+              <Text style={styles.errorSummary}>
+                {`${summary.mostFrequentError.prediction} — ${summary.mostFrequentError.count} of ${summary.throwCount} throws`}
+              </Text>
+            </View>
+          )}
+
+          {summary.bestThrow && (
+            <ThrowCard title="Best throw" entry={summary.bestThrow} icon={<Trophy size={22} color="#10b981" />} />
+          )}
+          {summary.worstThrow && (
+            <ThrowCard title="Worst throw" entry={summary.worstThrow} icon={<AlertTriangle size={22} color="#ef4444" />} />
+          )}
+
+          <TouchableOpacity style={styles.exportButton} onPress={exportSession}>
+            <Share2 size={20} color="#fff" />
+            <Text style={styles.exportButtonText}>Export Summary</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  title: { flex: 1, fontSize: 20, fontFamily: 'Inter-SemiBold', color: '#ffffff', textAlign: 'center', marginHorizontal: 12 },
+  scrollView: { flex: 1, paddingHorizontal: 20 },
+  sessionDates: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#e2e8f0', textAlign: 'center', marginBottom: 16 },
+  card: { backgroundColor: '#fff', borderRadius: 16, padding: 20, marginBottom: 16 },
+  cardTitle: { fontSize: 18, fontFamily: 'Inter-SemiBold', color: '#1a202c', marginBottom: 12 },
+  countItem: { flexDirection: 'row', alignItems: 'center', marginBottom: 12 },
+  countLabel: { fontSize: 14, fontFamily: 'Inter-Medium', color: '#4a5568', width: 140 },
+  countBar: { flex: 1, height: 8, backgroundColor: '#e2e8f0', borderRadius: 4, marginHorizontal: 12 },
+  countFill: { height: '100%', borderRadius: 4 },
+  countValue: { fontSize: 14, fontFamily: 'Inter-SemiBold', color: '#1a202c', width: 24, textAlign: 'right' },
+  emptyText: { fontSize: 14, fontFamily: 'Inter-Regular', color: '#64748b' },
+  errorSummary: { fontSize: 16, fontFamily: 'Inter-Medium', color: '#4a5568' },
+  throwCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  throwCardContent: { flex: 1, marginLeft: 12 },
+  throwCardTitle: { fontSize: 16, fontFamily: 'Inter-SemiBold', color: '#1a202c' },
+  throwCardSubtitle: { fontSize: 14, fontFamily: 'Inter-Regular', color: '#64748b', marginTop: 2 },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3182ce',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+    marginBottom: 30
+  },
+  exportButtonText: { fontSize: 16, fontFamily: 'Inter-SemiBold', color: '#fff', marginLeft: 8 },
+  errorContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#1a365d' },
+  errorText: { fontSize: 18, fontFamily: 'Inter-Medium', color: '#fff' },
+});
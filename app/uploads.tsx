@@ -0,0 +1,158 @@
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, Platform } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, RotateCcw, X, CloudUpload, ChevronRight } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { processingParams, UploadJob, UploadJobStatus } from '@/src/uploadQueue';
+
+const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  pending: 'Waiting to upload',
+  uploading: 'Uploading',
+  processing: 'Processing on server',
+  failed: 'Failed',
+};
+
+const STATUS_COLORS: Record<UploadJobStatus, string> = {
+  pending: '#f59e0b',
+  uploading: '#3182ce',
+  processing: '#8b5cf6',
+  failed: '#ef4444',
+};
+
+const describeJob = (job: UploadJob): string => {
+  switch (job.status) {
+    case 'uploading':
+      return `${STATUS_LABELS.uploading} · ${job.uploadProgress}%`;
+    case 'pending': {
+      const sent = job.resumable
+        ? ` · ${Math.round((job.resumable.uploadedBytes * 100) / (job.resumable.fileSize || 1))}% sent`
+        : '';
+      return job.nextAttemptAt && job.attempts > 0
+        ? `Retry ${job.attempts + 1} at ${new Date(job.nextAttemptAt).toLocaleTimeString()}${sent}`
+        : `${STATUS_LABELS.pending}${sent}`;
+    }
+    default:
+      return STATUS_LABELS[job.status];
+  }
+};
+
+export default function UploadsScreen() {
+  const { jobs, retry, cancel } = useUploadQueue();
+
+  const retryJob = (job: UploadJob) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+    retry(job.id);
+  };
+
+  const confirmCancel = (job: UploadJob) => {
+    Alert.alert(
+      'Cancel upload',
+      'The clip is removed from the queue and will not be analyzed.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => cancel(job.id) },
+      ]
+    );
+  };
+
+  const renderJob = ({ item }: { item: UploadJob }) => (
+    <TouchableOpacity
+      style={styles.job}
+      disabled={item.status !== 'processing'}
+      onPress={() => router.push({ pathname: '/processing', params: processingParams(item) })}
+    >
+      <View style={[styles.statusMarker, { backgroundColor: STATUS_COLORS[item.status] }]} />
+      <View style={styles.jobContent}>
+        <Text style={styles.jobTitle}>{new Date(item.createdAt).toLocaleString()}</Text>
+        <Text style={[styles.jobStatus, { color: STATUS_COLORS[item.status] }]}>{describeJob(item)}</Text>
+        {item.lastError && item.status !== 'processing' && (
+          <Text style={styles.jobError} numberOfLines={2}>{item.lastError}</Text>
+        )}
+        {item.status === 'uploading' && (
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${item.uploadProgress}%` }]} />
+          </View>
+        )}
+      </View>
+      {(item.status === 'failed' || item.status === 'pending') && (
+        <TouchableOpacity style={styles.actionButton} onPress={() => retryJob(item)}>
+          <RotateCcw size={18} color="#3182ce" />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.actionButton} onPress={() => confirmCancel(item)}>
+        <X size={18} color="#ef4444" />
+      </TouchableOpacity>
+      {item.status === 'processing' && <ChevronRight size={20} color="#94a3b8" />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <LinearGradient colors={['#1a365d', '#2d5a87']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Upload Queue</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <FlatList
+          data={jobs}
+          keyExtractor={job => job.id}
+          renderItem={renderJob}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <CloudUpload size={40} color="#e2e8f0" />
+              <Text style={styles.emptyText}>All clips are uploaded.</Text>
+            </View>
+          }
+        />
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  safeArea: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  headerSpacer: { width: 40 },
+  title: { fontSize: 20, fontFamily: 'Inter-SemiBold', color: '#ffffff' },
+  list: { paddingHorizontal: 20, paddingBottom: 20 },
+  job: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  statusMarker: { width: 8, alignSelf: 'stretch', borderRadius: 4, marginRight: 12 },
+  jobContent: { flex: 1 },
+  jobTitle: { fontSize: 16, fontFamily: 'Inter-SemiBold', color: '#1a202c' },
+  jobStatus: { fontSize: 14, fontFamily: 'Inter-Medium', marginTop: 2 },
+  jobError: { fontSize: 13, fontFamily: 'Inter-Regular', color: '#64748b', marginTop: 2 },
+  progressBar: { height: 4, backgroundColor: '#e2e8f0', borderRadius: 2, marginTop: 8 },
+  progressFill: { height: '100%', backgroundColor: '#3182ce', borderRadius: 2 },
+  actionButton: { padding: 8, marginLeft: 4 },
+  emptyState: { alignItems: 'center', paddingVertical: 60, paddingHorizontal: 20 },
+  emptyText: { fontSize: 16, fontFamily: 'Inter-Medium', color: '#e2e8f0', textAlign: 'center', marginTop: 12 },
+});
@@ -3,7 +3,33 @@
  * Integrates TensorFlow Lite with MediaPipe Pose Detection
  */
 
-import { useEffect } from 'react';
+import * as tf from '@tensorflow/tfjs';
+import { PoseBackend } from './PoseBackend';
+import { TfjsPoseBackend } from './TfjsPoseBackend';
+import { PersonDetector, TfjsPersonDetector } from './PersonDetector';
+import { CroppedImage, cropImage, mapLandmarksToFrame } from './Cropping';
+import { PersonTracker, selectThrowerTrack, ThrowerSelectionOptions } from './PersonTracker';
+import {
+  labelPhases,
+  PhaseSegmentation,
+  releaseCenteredWindow,
+  segmentThrowPhases,
+  ThrowPhase
+} from './PhaseSegmenter';
+import { BiomechanicalMetrics, computeBiomechanicalMetrics } from './BiomechanicsMetrics';
+import { TECHNIQUE_CLASSES, TechniqueModel, TfjsTechniqueModel } from './TechniqueClassifier';
+import {
+  blockErrorPrediction,
+  detectThrowingHand,
+  isBlockErrorPrediction,
+  mirrorPoseFrame,
+  ThrowingHand
+} from './Handedness';
+import { isJointCorrect } from './JointRoles';
+import { filterPoseSequence } from './PoseSmoother';
+import { loadImageTensor } from './ImageTensor';
+import { VideoMetadata } from './Mp4Metadata';
+import { ThumbnailFrameSource, VideoFrame, VideoFrameSource } from './VideoFrameSource';
 
 export interface PoseLandmark {
   x: number;
@@ -11,21 +37,34 @@ export interface PoseLandmark {
   z?: number;
   visibility: number;
   isCorrect?: boolean;
+  interpolated?: boolean; // filled in across a short occlusion
 }
 
 export interface PoseFrame {
   frame: number;
   landmarks: PoseLandmark[];
   timestamp: number;
+  phase?: ThrowPhase;
+  unreliable?: boolean; // too few key joints visible to analyze
 }
 
+export type TechniquePrediction =
+  | 'Good Technique'
+  | 'Low Arm'
+  | 'Poor Left Leg Block' // right-handed throwers block with the left leg
+  | 'Poor Right Leg Block' // left-handed throwers block with the right leg
+  | 'Both Errors';
+
 export interface AnalysisResult {
-  prediction: 'Good Technique' | 'Low Arm' | 'Poor Left Leg Block' | 'Both Errors';
+  prediction: TechniquePrediction;
   confidence: number;
   probabilities: Record<string, number>;
   poseData: PoseFrame[];
   analysisId: string;
   timestamp: number;
+  phases?: PhaseSegmentation; // only present for on-device analysis
+  metrics?: BiomechanicalMetrics; // only present for on-device analysis
+  throwingHand?: ThrowingHand; // only present for on-device analysis
 }
 
 export interface BoundingBox {
@@ -36,29 +75,76 @@ export interface BoundingBox {
   confidence: number;
 }
 
-// Define types for the TFLite model and PoseDetector
-interface TensorFlowLiteModel {
-  loaded: boolean; // Add more properties as needed for the actual model
+// Pipeline stages, shared with the analysis server's status updates
+export type AnalysisStage = 'detecting' | 'pose' | 'classifying' | 'rendering';
+
+export interface ProcessVideoOptions extends ThrowerSelectionOptions {
+  targetFps?: number; // frame sampling rate, capped at the clip's own frame rate
+  throwingHand?: ThrowingHand | 'auto'; // defaults to auto-detection
+  onStage?: (stage: AnalysisStage) => void; // called as each stage starts
 }
 
-interface PoseDetector {
-  initialized: boolean; // Add more properties as needed for the actual detector
+export const DEFAULT_TARGET_FPS = 30;
+export const HIGH_QUALITY_TARGET_FPS = 60;
+export const ANALYSIS_WINDOW_SIZE = 20; // frames consumed by the technique classifier
+const MAX_SAMPLED_FRAMES = 450;
+
+// Pluggable pipeline stages; each defaults to the on-device TF.js implementation
+export interface AIAnalysisEngineBackends {
+  poseBackend: PoseBackend;
+  frameSource: VideoFrameSource;
+  personDetector: PersonDetector;
+  techniqueModel: TechniqueModel;
 }
 
 export class AIAnalysisEngine {
   private isInitialized = false;
-  private model: TensorFlowLiteModel | null = null;
-  private poseDetector: PoseDetector | null = null;
-  private timeoutIds: NodeJS.Timeout[] = [];
+  private initializing: Promise<void> | null = null;
+  private activeRuns = 0;
+  private disposeRequested = false;
+  private poseBackend: PoseBackend;
+  private frameSource: VideoFrameSource;
+  private personDetector: PersonDetector;
+  private techniqueModel: TechniqueModel;
+
+  constructor(backends: Partial<AIAnalysisEngineBackends> = {}) {
+    this.poseBackend = backends.poseBackend ?? new TfjsPoseBackend();
+    this.frameSource = backends.frameSource ?? new ThumbnailFrameSource();
+    this.personDetector = backends.personDetector ?? new TfjsPersonDetector();
+    this.techniqueModel = backends.techniqueModel ?? new TfjsTechniqueModel();
+  }
+
+  /**
+   * Initialize the AI analysis engine with TensorFlow Lite model.
+   * Concurrent callers share a single load.
+   */
+  initialize(): Promise<void> {
+    this.initializing ??= this.loadModels().finally(() => {
+      this.initializing = null;
+    });
+    return this.initializing;
+  }
 
   /**
-   * Initialize the AI analysis engine with TensorFlow Lite model
+   * Whether every model can be loaded without a network connection
    */
-  async initialize(): Promise<void> {
+  async isAvailableOffline(): Promise<boolean> {
+    const stages = [this.techniqueModel, this.poseBackend, this.personDetector];
+    try {
+      const available = await Promise.all(stages.map(stage => stage.isAvailableOffline?.() ?? true));
+      return available.every(Boolean);
+    } catch (error) {
+      console.warn('Failed to check for cached models:', error);
+      return false;
+    }
+  }
+
+  private async loadModels(): Promise<void> {
     try {
       console.log('Initializing AI Analysis Engine...');
       await this.loadTensorFlowLiteModel();
       await this.initializeMediaPipePose();
+      await this.loadPersonDetector();
       this.isInitialized = true;
       console.log('AI Analysis Engine initialized successfully');
     } catch (error: any) {
@@ -69,23 +155,16 @@ export class AIAnalysisEngine {
   }
 
   /**
-   * Load the pre-trained TensorFlow Lite model
+   * Load the pre-trained technique classification model
    */
   private async loadTensorFlowLiteModel(): Promise<void> {
-    console.log('Loading TensorFlow Lite model...');
+    console.log('Loading technique classification model...');
     try {
-      // Simulate model loading with a timeout
-      await new Promise((resolve, reject) => {
-        const timeoutId: NodeJS.Timeout = setTimeout(() => {
-          this.model = { loaded: true }; // Mock model
-          console.log('TensorFlow Lite model loaded (mock)');
-          resolve(undefined);
-        }, 1000) as any;
-        this.timeoutIds.push(timeoutId);
-      });
+      await this.techniqueModel.load();
+      console.log('Technique classification model loaded');
     } catch (error: any) {
-      console.error('Failed to load TensorFlow Lite model:', error);
-      throw new Error(`TFLite model loading failed: ${error.message}`);
+      console.error('Failed to load technique classification model:', error);
+      throw new Error(`Technique model loading failed: ${error.message}`);
     }
   }
 
@@ -95,15 +174,8 @@ export class AIAnalysisEngine {
   private async initializeMediaPipePose(): Promise<void> {
     console.log('Initializing MediaPipe Pose...');
     try {
-      // Simulate MediaPipe initialization with a timeout
-      await new Promise((resolve, reject) => {
-        const timeoutId: NodeJS.Timeout = setTimeout(() => {
-          this.poseDetector = { initialized: true }; // Mock detector
-          console.log('MediaPipe Pose initialized (mock)');
-          resolve(undefined);
-        }, 500) as any;
-        this.timeoutIds.push(timeoutId);
-      });
+      await this.poseBackend.load();
+      console.log('MediaPipe Pose initialized');
     } catch (error: any) {
       console.error('Failed to initialize MediaPipe Pose:', error);
       throw new Error(`MediaPipe Pose initialization failed: ${error.message}`);
@@ -111,138 +183,113 @@ export class AIAnalysisEngine {
   }
 
   /**
-   * Detect athlete in video frame using YOLOv8
+   * Load the person detector used to locate athletes
    */
-  async detectAthlete(imageData: ImageData | string): Promise<BoundingBox | null> {
+  private async loadPersonDetector(): Promise<void> {
+    console.log('Loading person detector...');
+    try {
+      await this.personDetector.load();
+      console.log('Person detector loaded');
+    } catch (error: any) {
+      console.error('Failed to load person detector:', error);
+      throw new Error(`Person detector loading failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Detect every person in a video frame.
+   * Accepts a decoded RGB tensor or the URI of a JPEG on disk.
+   */
+  async detectPeople(imageData: tf.Tensor3D | string): Promise<BoundingBox[]> {
     if (!this.isInitialized) {
       throw new Error('AI Analysis Engine not initialized');
     }
 
-    console.log('Detecting athlete with YOLOv8...');
+    let image: tf.Tensor3D | null = null;
     try {
-      // Simulate YOLOv8 detection with a timeout
-      await new Promise((resolve, reject) => {
-        const timeoutId: NodeJS.Timeout = setTimeout(() => {
-          // Mock detection result
-          const bbox: BoundingBox = {
-            x: 0.25,
-            y: 0.15,
-            width: 0.5,
-            height: 0.7,
-            confidence: 0.92
-          };
-          resolve(bbox);
-        }, 100) as any;
-        this.timeoutIds.push(timeoutId);
-      });
-      return {
-        x: 0.25,
-        y: 0.15,
-        width: 0.5,
-        height: 0.7,
-        confidence: 0.92
-      };
+      image = typeof imageData === 'string' ? await loadImageTensor(imageData) : imageData;
+      return await this.personDetector.detect(image);
     } catch (error: any) {
-      console.error('Athlete detection failed:', error);
-      return null; // Indicate detection failure
+      console.error('Person detection failed:', error);
+      return []; // Indicate detection failure
+    } finally {
+      if (image && typeof imageData === 'string') {
+        image.dispose();
+      }
     }
   }
 
   /**
-   * Extract pose landmarks from cropped athlete region
+   * Detect the athlete in a video frame (most confident person)
    */
-  async extractPoseLandmarks(croppedImage: ImageData | string): Promise<PoseLandmark[]> {
+  async detectAthlete(imageData: tf.Tensor3D | string): Promise<BoundingBox | null> {
+    const people = await this.detectPeople(imageData);
+    return people[0] ?? null;
+  }
+
+  /**
+   * Extract pose landmarks from cropped athlete region.
+   * Accepts a decoded RGB tensor or the URI of a JPEG on disk.
+   */
+  async extractPoseLandmarks(croppedImage: tf.Tensor3D | string): Promise<PoseLandmark[]> {
     if (!this.isInitialized) {
       throw new Error('AI Analysis Engine not initialized');
     }
 
-    console.log('Extracting pose landmarks...');
+    let image: tf.Tensor3D | null = null;
     try {
-      // Simulate pose extraction with a timeout
-      await new Promise((resolve, reject) => {
-        const timeoutId: NodeJS.Timeout = setTimeout(() => {
-          // Mock pose landmarks (33 MediaPipe pose points)
-          const landmarks: PoseLandmark[] = Array.from({ length: 33 }, (_, index) => ({
-            x: 0.3 + (Math.random() * 0.4),
-            y: 0.2 + (Math.random() * 0.6),
-            z: Math.random() * 0.5,
-            visibility: 0.7 + (Math.random() * 0.3)
-          }));
-          resolve(landmarks);
-        }, 150) as any;
-        this.timeoutIds.push(timeoutId);
-      });
-      return Array.from({ length: 33 }, (_, index) => ({
-        x: 0.3 + (Math.random() * 0.4),
-        y: 0.2 + (Math.random() * 0.6),
-        z: Math.random() * 0.5,
-        visibility: 0.7 + (Math.random() * 0.3)
-      }));
+      image = typeof croppedImage === 'string'
+        ? await loadImageTensor(croppedImage)
+        : croppedImage;
+      return await this.poseBackend.estimate(image);
     } catch (error: any) {
       console.error('Pose landmark extraction failed:', error);
       return []; // Indicate extraction failure
+    } finally {
+      // Only dispose tensors we decoded ourselves
+      if (image && typeof croppedImage === 'string') {
+        image.dispose();
+      }
     }
   }
 
   /**
-   * Analyze pose sequence using trained neural network
+   * Analyze pose sequence using trained neural network.
+   * Left-handed throws are mirrored before inference, since the model is
+   * trained on right-handed throwers, and block-leg labels are mirrored back.
    */
-  async analyzeTechnique(poseSequence: PoseFrame[]): Promise<AnalysisResult> {
+  async analyzeTechnique(poseSequence: PoseFrame[], hand: ThrowingHand = 'right'): Promise<AnalysisResult> {
     if (!this.isInitialized) {
       throw new Error('AI Analysis Engine not initialized');
     }
 
-    if (poseSequence.length < 20) {
-      throw new Error('Insufficient pose frames for analysis (minimum 20 required)');
+    if (poseSequence.length < ANALYSIS_WINDOW_SIZE) {
+      throw new Error(`Insufficient pose frames for analysis (minimum ${ANALYSIS_WINDOW_SIZE} required)`);
     }
 
     console.log('Analyzing technique with neural network...');
     try {
-      // Simulate neural network inference with a timeout
-      await new Promise((resolve, reject) => {
-        const timeoutId: NodeJS.Timeout = setTimeout(() => {
-          // Mock analysis results
-          const predictions = [
-            { class: 'Good Technique', probability: 0.12 },
-            { class: 'Low Arm', probability: 0.75 },
-            { class: 'Poor Left Leg Block', probability: 0.08 },
-            { class: 'Both Errors', probability: 0.05 }
-          ];
-
-          const topPrediction = predictions.reduce((prev, current) =>
-            current.probability > prev.probability ? current : prev
-          );
-
-          // Add correctness flags to pose landmarks
-          const enhancedPoseData = poseSequence.map(frame => ({
-            ...frame,
-            landmarks: frame.landmarks.map((landmark, index) => ({
-              ...landmark,
-              isCorrect: this.evaluateJointCorrectness(index, topPrediction.class, landmark)
-            }))
-          }));
-
-          const result: AnalysisResult = {
-            prediction: topPrediction.class as any,
-            confidence: topPrediction.probability,
-            probabilities: Object.fromEntries(
-              predictions.map(p => [p.class, p.probability])
-            ),
-            poseData: enhancedPoseData,
-            analysisId: this.generateAnalysisId(),
-            timestamp: Date.now()
-          };
-          resolve(result);
-        }, 800) as any;
-        this.timeoutIds.push(timeoutId);
-      });
+      const modelInput = hand === 'left' ? poseSequence.map(mirrorPoseFrame) : poseSequence;
+      const probabilities = await this.techniqueModel.predict(modelInput);
+      const predictions = TECHNIQUE_CLASSES.map((techniqueClass, index) => ({
+        class: isBlockErrorPrediction(techniqueClass) ? blockErrorPrediction(hand) : techniqueClass,
+        probability: probabilities[index]
+      }));
+
+      const topPrediction = predictions.reduce((prev, current) =>
+        current.probability > prev.probability ? current : prev
+      );
+
       return {
-        prediction: 'Low Arm',
-        confidence: 0.75,
-        probabilities: { 'Good Technique': 0.12, 'Low Arm': 0.75, 'Poor Left Leg Block': 0.08, 'Both Errors': 0.05 },
-        poseData: [],
-        analysisId: 'mock_analysis_id',
-        timestamp: Date.now()
+        prediction: topPrediction.class,
+        confidence: topPrediction.probability,
+        probabilities: Object.fromEntries(
+          predictions.map(p => [p.class, p.probability])
+        ),
+        poseData: this.flagJointCorrectness(poseSequence, topPrediction.class, hand),
+        analysisId: this.generateAnalysisId(),
+        timestamp: Date.now(),
+        throwingHand: hand
       };
     } catch (error: any) {
       console.error('Technique analysis failed:', error);
@@ -251,30 +298,30 @@ export class AIAnalysisEngine {
   }
 
   /**
-   * Evaluate if a specific joint position is correct based on the prediction
+   * Add correctness flags to every landmark of a pose sequence
+   */
+  private flagJointCorrectness(poseSequence: PoseFrame[], prediction: string, hand: ThrowingHand): PoseFrame[] {
+    return poseSequence.map(frame => ({
+      ...frame,
+      landmarks: frame.landmarks.map((landmark, index) => ({
+        ...landmark,
+        isCorrect: this.evaluateJointCorrectness(index, prediction, landmark, hand)
+      }))
+    }));
+  }
+
+  /**
+   * Evaluate if a specific joint position is correct based on the prediction.
+   * Faults are attributed per limb: the throwing arm for 'Low Arm', the block
+   * leg for block errors (see PREDICTION_FAULTS in JointRoles).
    */
   private evaluateJointCorrectness(
     jointIndex: number,
     prediction: string,
-    landmark: PoseLandmark
+    landmark: PoseLandmark,
+    hand: ThrowingHand
   ): boolean {
-    // Joint indices for MediaPipe Pose (simplified mapping)
-    const armJoints = [11, 12, 13, 14, 15, 16]; // Shoulders, elbows, wrists
-    const legJoints = [23, 24, 25, 26, 27, 28]; // Hips, knees, ankles
-
-    switch (prediction) {
-      case 'Low Arm':
-        return !armJoints.includes(jointIndex);
-      case 'Poor Left Leg Block':
-        // Left leg joints (odd indices in leg joints)
-        return !(legJoints.includes(jointIndex) && jointIndex % 2 === 1);
-      case 'Both Errors':
-        return !(armJoints.includes(jointIndex) ||
-          (legJoints.includes(jointIndex) && jointIndex % 2 === 1));
-      case 'Good Technique':
-      default:
-        return true;
-    }
+    return isJointCorrect(jointIndex, prediction, hand);
   }
 
   /**
@@ -285,9 +332,20 @@ export class AIAnalysisEngine {
   }
 
   /**
-   * Process complete video for javelin throw analysis
+   * Process complete video for javelin throw analysis. The models stay
+   * loaded afterwards so the next clip starts straight away.
    */
-  async processVideo(videoUri: string): Promise<AnalysisResult> {
+  async processVideo(videoUri: string, options: ProcessVideoOptions = {}): Promise<AnalysisResult> {
+    this.activeRuns++;
+    try {
+      return await this.runPipeline(videoUri, options);
+    } finally {
+      this.activeRuns--;
+      if (this.activeRuns === 0 && this.disposeRequested) this.dispose();
+    }
+  }
+
+  private async runPipeline(videoUri: string, options: ProcessVideoOptions): Promise<AnalysisResult> {
     if (!this.isInitialized) {
       try {
         await this.initialize();
@@ -295,97 +353,155 @@ export class AIAnalysisEngine {
         console.error('Failed to initialize engine before processing video:', error);
         throw error; // Re-throw to prevent further processing
       }
+    } else {
+      // The technique model follows the active server profile
+      await this.techniqueModel.load();
     }
 
     console.log('Starting video analysis pipeline...');
 
+    let frames: VideoFrame[] = [];
     try {
       // Step 1: Extract frames from video
-      const frames = await this.extractVideoFrames(videoUri);
-      console.log(`Extracted ${frames.length} frames`);
-
-      // Step 2: Detect athlete in each frame
-      const athleteDetections: Array<{ frame: number, bbox: BoundingBox | null }> = [];
-      for (let i = 0; i < frames.length; i++) {
-        const bbox = await this.detectAthlete(frames[i]);
-        athleteDetections.push({ frame: i, bbox });
-      }
-
-      // Step 3: Extract pose sequence from detected athlete regions
+      const extraction = await this.extractVideoFrames(videoUri, options.targetFps ?? DEFAULT_TARGET_FPS);
+      frames = extraction.frames;
+      console.log(`Extracted ${frames.length} frames at up to ${extraction.metadata.frameRate.toFixed(2)} FPS`);
+
+      // Step 2: Detect and track everyone in frame, then pick the thrower.
+      // Each frame is decoded once: everyone detected is cropped straight
+      // away, at no more than the pose model's input size, and the full
+      // frame is released before the next one is read
+      options.onStage?.('detecting');
+      const tracker = new PersonTracker();
+      const crops = new Map<string, CroppedImage>(); // keyed by frame and track
+      const cropKey = (frame: number, trackId: number) => `${frame}:${trackId}`;
       const poseSequence: PoseFrame[] = [];
-      for (const detection of athleteDetections) {
-        if (detection.bbox) {
-          const croppedFrame = this.cropFrame(frames[detection.frame], detection.bbox);
-          const landmarks = await this.extractPoseLandmarks(croppedFrame);
+      try {
+        for (const frame of frames) {
+          let image: tf.Tensor3D;
+          try {
+            image = await loadImageTensor(frame.uri);
+          } catch (error) {
+            console.error('Frame decoding failed:', error);
+            tracker.update(frame.frame, frame.timestamp, []);
+            continue;
+          }
+          try {
+            const people = await this.detectPeople(image);
+            for (const detection of tracker.update(frame.frame, frame.timestamp, people)) {
+              crops.set(
+                cropKey(detection.frame, detection.trackId),
+                cropImage(image, detection.bbox, this.poseBackend.inputSize)
+              );
+            }
+          } finally {
+            image.dispose();
+          }
+        }
+        const throwerTrack = selectThrowerTrack(tracker.getTracks(), frames.length, options);
+        if (!throwerTrack) {
+          throw new Error('No athlete detected in video');
+        }
+        console.log(`Tracked ${tracker.getTracks().length} people; thrower is track ${throwerTrack.id}`);
+
+        // Step 3: Extract the pose from the thrower's crops, mapping
+        // landmarks back into full-frame coordinates
+        options.onStage?.('pose');
+        for (const detection of throwerTrack.detections) {
+          const cropped = crops.get(cropKey(detection.frame, throwerTrack.id));
+          if (!cropped) continue;
+
+          const landmarks = await this.extractPoseLandmarks(cropped.image);
+          if (landmarks.length === 0) continue;
 
           poseSequence.push({
             frame: detection.frame,
-            landmarks,
-            timestamp: detection.frame * (1000 / 30) // Assuming 30 FPS
+            landmarks: mapLandmarksToFrame(landmarks, cropped.region),
+            timestamp: detection.timestamp
           });
         }
+      } finally {
+        crops.forEach(cropped => cropped.image.dispose());
       }
 
-      // Step 4: Analyze technique using neural network
-      if (poseSequence.length >= 20) {
-        // Take the most relevant 20 frames (middle portion of throw)
-        const startIndex = Math.max(0, Math.floor((poseSequence.length - 20) / 2));
-        const relevantFrames = poseSequence.slice(startIndex, startIndex + 20);
+      // Step 4: Smooth jitter, bridge short occlusions and drop frames with
+      // too few visible joints; this is also the sequence drawn on screen
+      const filteredSequence = filterPoseSequence(poseSequence);
+      const smoothedSequence = filteredSequence.filter(frame => !frame.unreliable);
+      console.log(`Dropped ${filteredSequence.length - smoothedSequence.length} unreliable pose frames`);
 
-        return await this.analyzeTechnique(relevantFrames);
-      } else {
+      // Step 5: Segment the throw into phases
+      if (smoothedSequence.length < ANALYSIS_WINDOW_SIZE) {
         throw new Error('Insufficient pose data for analysis');
       }
+      const hand = options.throwingHand && options.throwingHand !== 'auto'
+        ? options.throwingHand
+        : detectThrowingHand(smoothedSequence);
+      const segmentation = segmentThrowPhases(smoothedSequence, hand);
+      if (!segmentation) {
+        throw new Error('Could not locate the release in this clip');
+      }
+      const labeledSequence = labelPhases(smoothedSequence, segmentation);
+      console.log(`Release detected at frame ${segmentation.releaseFrame} (${hand}-handed)`);
+
+      // Step 6: Analyze technique on the window centred on the release
+      options.onStage?.('classifying');
+      const relevantFrames = releaseCenteredWindow(labeledSequence, segmentation, ANALYSIS_WINDOW_SIZE);
+      const result = await this.analyzeTechnique(relevantFrames, hand);
+
+      // Step 7: Measure the throw
+      options.onStage?.('rendering');
+      const metrics = computeBiomechanicalMetrics(labeledSequence, segmentation, hand);
+
+      // Return the whole throw so the overlay covers the full clip, not just
+      // the classifier window
+      const poseData = this.flagJointCorrectness(labeledSequence, result.prediction, hand);
+      return { ...result, poseData, phases: segmentation, metrics };
 
     } catch (error: any) {
       console.error('Video analysis failed:', error);
       throw new Error(`Video analysis failed: ${error.message}`);
+    } finally {
+      await this.frameSource.releaseFrames(frames);
     }
   }
 
   /**
-   * Extract frames from video (mock implementation)
+   * Extract frames from video at the target FPS, using the clip's real
+   * frame rate and duration for timestamps
    */
-  private async extractVideoFrames(videoUri: string): Promise<string[]> {
+  private async extractVideoFrames(
+    videoUri: string,
+    targetFps: number
+  ): Promise<{ metadata: VideoMetadata, frames: VideoFrame[] }> {
     console.log('Extracting video frames...');
     try {
-      // Simulate frame extraction with a timeout
-      await new Promise((resolve, reject) => {
-        const timeoutId: NodeJS.Timeout = setTimeout(() => {
-          // Mock 60 frames
-          const frames: string[] = Array.from({ length: 60 }, (_, i) => `frame_${i}`);
-          resolve(frames);
-        }, 500) as any;
-        this.timeoutIds.push(timeoutId);
+      const metadata = await this.frameSource.readMetadata(videoUri);
+      const frames = await this.frameSource.extractFrames(videoUri, metadata, {
+        targetFps,
+        maxFrames: MAX_SAMPLED_FRAMES
       });
-      return Array.from({ length: 60 }, (_, i) => `frame_${i}`);
+      return { metadata, frames };
     } catch (error: any) {
       console.error('Frame extraction failed:', error);
-      return []; // Indicate extraction failure
+      throw new Error(`Frame extraction failed: ${error.message}`);
     }
   }
 
   /**
-   * Crop frame to athlete bounding box (mock implementation)
+   * Clean up resources. While a video is being processed the release is
+   * deferred until the last run finishes.
    */
-  private cropFrame(frame: string, bbox: BoundingBox): string {
-    // Mock frame cropping - in production, you would:
-    // 1. Apply bounding box coordinates to crop the image
-    // 2. Return cropped image data
-
-    return `cropped_${frame}`;
-  }
-
-  /**
-   * Clean up resources
-   */
- dispose(): void {
-   // Clear all timeouts to prevent memory leaks
-   this.timeoutIds.forEach(clearTimeout);
-   this.timeoutIds = [];
-   this.model = null; // Release model reference
-   this.poseDetector = null; // Release pose detector reference
-   this.isInitialized = false; // Reset initialization flag
+  dispose(): void {
+    if (this.activeRuns > 0) {
+      this.disposeRequested = true;
+      return;
+    }
+    this.disposeRequested = false;
+    this.techniqueModel.dispose(); // Release classifier weights
+    this.poseBackend.dispose(); // Release pose model weights
+    this.personDetector.dispose(); // Release detector model weights
+    this.isInitialized = false; // Reset initialization flag
     console.log('AI Analysis Engine disposed');
   }
 }
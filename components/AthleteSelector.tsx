@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, FlatList, StyleProp, ViewStyle } from 'react-native';
+import { router } from 'expo-router';
+import { User, ChevronDown, Check, Users } from 'lucide-react-native';
+import { useAthletes } from '@/hooks/useAthletes';
+import { Athlete, athleteEventLabel } from '@/src/athleteStore';
+
+interface AthleteSelectorProps {
+  style?: StyleProp<ViewStyle>;
+  disabled?: boolean;
+}
+
+/**
+ * Pill showing the active athlete; tapping it opens a picker. The choice is
+ * persisted, so every screen using it shares the same athlete.
+ */
+export const AthleteSelector: React.FC<AthleteSelectorProps> = ({ style, disabled = false }) => {
+  const { athletes, activeAthlete, selectAthlete } = useAthletes();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choose = async (athlete: Athlete | null) => {
+    await selectAthlete(athlete);
+    setIsOpen(false);
+  };
+
+  const manageAthletes = () => {
+    setIsOpen(false);
+    router.push('/athletes');
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.pill, style]}
+        onPress={() => setIsOpen(true)}
+        disabled={disabled}
+      >
+        <User size={16} color="#ffffff" />
+        <Text style={styles.pillText} numberOfLines={1}>
+          {activeAthlete ? activeAthlete.name : 'No athlete'}
+        </Text>
+        <ChevronDown size={16} color="#ffffff" />
+      </TouchableOpacity>
+
+      <Modal visible={isOpen} transparent animationType="fade" onRequestClose={() => setIsOpen(false)}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={() => setIsOpen(false)}>
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>Who is throwing?</Text>
+            <FlatList
+              data={[null, ...athletes]}
+              keyExtractor={athlete => athlete?.id ?? 'none'}
+              renderItem={({ item }) => {
+                const isActive = (item?.id ?? null) === (activeAthlete?.id ?? null);
+                return (
+                  <TouchableOpacity style={styles.option} onPress={() => choose(item)}>
+                    <View style={styles.optionContent}>
+                      <Text style={styles.optionTitle}>{item ? item.name : 'No athlete'}</Text>
+                      {item && (
+                        <Text style={styles.optionSubtitle}>
+                          {`${item.throwingHand === 'left' ? 'Left' : 'Right'}-handed · ${athleteEventLabel(item.event)}`}
+                        </Text>
+                      )}
+                    </View>
+                    {isActive && <Check size={20} color="#3182ce" />}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+            <TouchableOpacity style={styles.manageButton} onPress={manageAthletes}>
+              <Users size={18} color="#3182ce" />
+              <Text style={styles.manageText}>Manage athletes</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+export default AthleteSelector;
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    maxWidth: 220,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  pillText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#ffffff',
+    marginHorizontal: 6,
+    flexShrink: 1,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    color: '#1a202c',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    color: '#1a202c',
+  },
+  optionSubtitle: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    color: '#64748b',
+    marginTop: 2,
+  },
+  manageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  manageText: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    color: '#3182ce',
+    marginLeft: 8,
+  },
+});
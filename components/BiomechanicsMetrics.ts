@@ -0,0 +1,159 @@
+/**
+ * Biomechanical metrics computed from pose landmarks
+ * Lengths are expressed in torso lengths (mid-hip to mid-shoulder) so they
+ * do not depend on camera distance; angles are in degrees.
+ */
+
+import { PoseFrame, PoseLandmark } from './AIAnalysisEngine';
+import { PhaseSegmentation } from './PhaseSegmenter';
+import { blockSideLandmarks, throwingSideLandmarks, ThrowingHand } from './Handedness';
+import { landmarkIndex } from './JointRoles';
+
+export interface BiomechanicalMetrics {
+  elbowHeightAtRelease: number | null; // + means elbow above shoulder
+  throwingArmAngleAtRelease: number | null; // shoulder-to-wrist line above horizontal
+  blockKneeFlexionAtPlant: number | null; // 0 is a straight leg
+  hipShoulderSeparation: number | null; // at plant, from estimated depth
+  trunkLeanAtRelease: number | null; // + means leaning back, away from the throw
+  lastCrossoverStrideLength: number | null; // ankle to ankle at plant
+}
+
+export type MetricKey = keyof BiomechanicalMetrics;
+
+export const METRIC_DEFINITIONS: Record<MetricKey, { label: string; unit: string; decimals: number }> = {
+  elbowHeightAtRelease: { label: 'Elbow height vs shoulder', unit: 'torso', decimals: 2 },
+  throwingArmAngleAtRelease: { label: 'Throwing-arm angle', unit: '°', decimals: 0 },
+  blockKneeFlexionAtPlant: { label: 'Block knee flexion', unit: '°', decimals: 0 },
+  hipShoulderSeparation: { label: 'Hip–shoulder separation', unit: '°', decimals: 0 },
+  trunkLeanAtRelease: { label: 'Trunk lean', unit: '°', decimals: 0 },
+  lastCrossoverStrideLength: { label: 'Last crossover stride', unit: 'torso', decimals: 2 }
+};
+
+export const METRIC_KEYS = Object.keys(METRIC_DEFINITIONS) as MetricKey[];
+
+const MIN_VISIBILITY = 0.5;
+
+const LEFT_SHOULDER = landmarkIndex('left_shoulder');
+const RIGHT_SHOULDER = landmarkIndex('right_shoulder');
+const LEFT_HIP = landmarkIndex('left_hip');
+const RIGHT_HIP = landmarkIndex('right_hip');
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const midpoint = (a: PoseLandmark, b: PoseLandmark) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/** Landmarks by index, or null when any of them is not reliably visible */
+const visible = (frame: PoseFrame | undefined, indices: number[]): PoseLandmark[] | null => {
+  if (!frame) return null;
+  const landmarks = indices.map(index => frame.landmarks[index]);
+  return landmarks.every(landmark => landmark && landmark.visibility >= MIN_VISIBILITY) ? landmarks : null;
+};
+
+const torsoLength = (frame: PoseFrame): number | null => {
+  const points = visible(frame, [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP]);
+  if (!points) return null;
+  const shoulders = midpoint(points[0], points[1]);
+  const hips = midpoint(points[2], points[3]);
+  return Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y) || null;
+};
+
+type Point = Pick<PoseLandmark, 'x' | 'y'>;
+
+/** Interior angle at b formed by a-b-c, in degrees */
+export const jointAngle = (a: Point, b: Point, c: Point): number => {
+  const angle = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
+  const degrees = Math.abs(toDegrees(angle));
+  return degrees > 180 ? 360 - degrees : degrees;
+};
+
+/**
+ * Compute all metrics for a segmented throw. Metrics whose landmarks are
+ * occluded at the relevant frame are null.
+ */
+export function computeBiomechanicalMetrics(
+  poseSequence: PoseFrame[],
+  segmentation: PhaseSegmentation,
+  hand: ThrowingHand = 'right'
+): BiomechanicalMetrics {
+  const throwing = throwingSideLandmarks(hand);
+  const block = blockSideLandmarks(hand);
+
+  const byFrame = (frameNumber: number) => poseSequence.find(frame => frame.frame === frameNumber);
+  const release = byFrame(segmentation.releaseFrame);
+  const blockPhase = segmentation.phases.find(boundary => boundary.phase === 'block');
+  const plant = blockPhase ? byFrame(blockPhase.startFrame) : release;
+
+  // Direction of travel along the runway (+1 toward larger x)
+  const first = poseSequence[0];
+  const hipTravel = release && first
+    ? midpoint(release.landmarks[LEFT_HIP], release.landmarks[RIGHT_HIP]).x -
+      midpoint(first.landmarks[LEFT_HIP], first.landmarks[RIGHT_HIP]).x
+    : 0;
+  const direction = hipTravel >= 0 ? 1 : -1;
+
+  const elbowHeightAtRelease = (() => {
+    const points = visible(release, [throwing.shoulder, throwing.elbow]);
+    const torso = release && torsoLength(release);
+    if (!points || !torso) return null;
+    return (points[0].y - points[1].y) / torso; // image y grows downward
+  })();
+
+  const throwingArmAngleAtRelease = (() => {
+    const points = visible(release, [throwing.shoulder, throwing.wrist]);
+    if (!points) return null;
+    const [shoulder, wrist] = points;
+    return toDegrees(Math.atan2(shoulder.y - wrist.y, Math.abs(wrist.x - shoulder.x)));
+  })();
+
+  const blockKneeFlexionAtPlant = (() => {
+    const points = visible(plant, [block.hip, block.knee, block.ankle]);
+    if (!points) return null;
+    return 180 - jointAngle(points[0], points[1], points[2]);
+  })();
+
+  const hipShoulderSeparation = (() => {
+    const points = visible(plant, [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP]);
+    if (!points || points.some(point => point.z === undefined)) return null;
+    const [leftShoulder, rightShoulder, leftHip, rightHip] = points;
+    // Orientation of each line in the transverse (x-z) plane
+    const shoulderAxis = Math.atan2(rightShoulder.z! - leftShoulder.z!, rightShoulder.x - leftShoulder.x);
+    const hipAxis = Math.atan2(rightHip.z! - leftHip.z!, rightHip.x - leftHip.x);
+    const separation = Math.abs(toDegrees(shoulderAxis - hipAxis));
+    return separation > 180 ? 360 - separation : separation;
+  })();
+
+  const trunkLeanAtRelease = (() => {
+    const points = visible(release, [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP]);
+    if (!points) return null;
+    const shoulders = midpoint(points[0], points[1]);
+    const hips = midpoint(points[2], points[3]);
+    // Positive when the shoulders trail the hips along the direction of travel
+    return toDegrees(Math.atan2((hips.x - shoulders.x) * direction, hips.y - shoulders.y));
+  })();
+
+  const lastCrossoverStrideLength = (() => {
+    const points = visible(plant, [throwing.ankle, block.ankle]);
+    const torso = plant && torsoLength(plant);
+    if (!points || !torso) return null;
+    return Math.abs(points[1].x - points[0].x) / torso;
+  })();
+
+  return {
+    elbowHeightAtRelease,
+    throwingArmAngleAtRelease,
+    blockKneeFlexionAtPlant,
+    hipShoulderSeparation,
+    trunkLeanAtRelease,
+    lastCrossoverStrideLength
+  };
+}
+
+/**
+ * Display string for a metric value, e.g. "42°" or "0.35 torso"
+ */
+export function formatMetric(key: MetricKey, value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '—';
+  const { unit, decimals } = METRIC_DEFINITIONS[key];
+  const formatted = value.toFixed(decimals);
+  return unit === '°' ? `${formatted}°` : `${formatted} ${unit}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Athlete cropping and crop-to-frame coordinate mapping
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { BoundingBox, PoseLandmark } from './AIAnalysisEngine';
+
+export interface CroppedImage {
+  image: tf.Tensor3D;
+  region: BoundingBox; // crop rectangle, normalized to the full frame
+}
+
+// Extra context around the detected box so a raised arm or javelin is not clipped
+const CROP_MARGIN = 0.2;
+
+/**
+ * Grow a normalized box into a square crop region (in pixels) with margin,
+ * clamped to the frame
+ */
+export function expandToCropRegion(
+  bbox: BoundingBox,
+  frameWidth: number,
+  frameHeight: number,
+  margin: number = CROP_MARGIN
+): BoundingBox {
+  const centerX = (bbox.x + bbox.width / 2) * frameWidth;
+  const centerY = (bbox.y + bbox.height / 2) * frameHeight;
+  const side = Math.max(bbox.width * frameWidth, bbox.height * frameHeight) * (1 + 2 * margin);
+
+  const left = Math.max(0, Math.round(centerX - side / 2));
+  const top = Math.max(0, Math.round(centerY - side / 2));
+  const right = Math.min(frameWidth, Math.round(centerX + side / 2));
+  const bottom = Math.min(frameHeight, Math.round(centerY + side / 2));
+
+  return {
+    x: left / frameWidth,
+    y: top / frameHeight,
+    width: Math.max(1, right - left) / frameWidth,
+    height: Math.max(1, bottom - top) / frameHeight,
+    confidence: bbox.confidence
+  };
+}
+
+/**
+ * Crop the athlete out of a full frame, downscaling the crop when its longer
+ * side exceeds maxSide. The caller owns the returned tensor.
+ */
+export function cropImage(frame: tf.Tensor3D, bbox: BoundingBox, maxSide?: number): CroppedImage {
+  const [height, width] = frame.shape;
+  const region = expandToCropRegion(bbox, width, height);
+
+  const top = Math.round(region.y * height);
+  const left = Math.round(region.x * width);
+  const cropHeight = Math.min(height - top, Math.max(1, Math.round(region.height * height)));
+  const cropWidth = Math.min(width - left, Math.max(1, Math.round(region.width * width)));
+
+  const scale = maxSide ? Math.min(1, maxSide / Math.max(cropHeight, cropWidth)) : 1;
+  const image = tf.tidy(() => {
+    const crop = tf.slice(frame, [top, left, 0], [cropHeight, cropWidth, 3]);
+    if (scale === 1) return crop;
+    const size: [number, number] = [
+      Math.max(1, Math.round(cropHeight * scale)),
+      Math.max(1, Math.round(cropWidth * scale))
+    ];
+    return tf.image.resizeBilinear(crop, size);
+  });
+
+  return {
+    image,
+    region: {
+      ...region,
+      x: left / width,
+      y: top / height,
+      width: cropWidth / width,
+      height: cropHeight / height
+    }
+  };
+}
+
+/**
+ * Map landmarks normalized to a crop back into full-frame normalized space
+ */
+export function mapLandmarksToFrame(landmarks: PoseLandmark[], region: BoundingBox): PoseLandmark[] {
+  return landmarks.map(landmark => ({
+    ...landmark,
+    x: region.x + landmark.x * region.width,
+    y: region.y + landmark.y * region.height,
+    z: landmark.z !== undefined ? landmark.z * region.width : undefined
+  }));
+}
@@ -0,0 +1,95 @@
+/**
+ * Throwing-hand support
+ * The pipeline is written in terms of the throwing arm and the block leg;
+ * this module maps those roles onto MediaPipe's left/right landmarks.
+ */
+
+import { PoseFrame, TechniquePrediction } from './AIAnalysisEngine';
+import { LANDMARK_NAMES, LandmarkName, landmarkIndex, oppositeSide, ThrowingHand } from './JointRoles';
+
+export { oppositeSide };
+export type { ThrowingHand };
+
+export interface SideLandmarks {
+  shoulder: number;
+  elbow: number;
+  wrist: number;
+  hip: number;
+  knee: number;
+  ankle: number;
+}
+
+const sideLandmarks = (side: ThrowingHand): SideLandmarks => {
+  const index = (joint: string) => landmarkIndex(`${side}_${joint}` as LandmarkName);
+  return {
+    shoulder: index('shoulder'),
+    elbow: index('elbow'),
+    wrist: index('wrist'),
+    hip: index('hip'),
+    knee: index('knee'),
+    ankle: index('ankle')
+  };
+};
+
+/** Landmarks on the throwing-arm side */
+export const throwingSideLandmarks = (hand: ThrowingHand): SideLandmarks => sideLandmarks(hand);
+
+/** Landmarks on the block-leg side (opposite the throwing arm) */
+export const blockSideLandmarks = (hand: ThrowingHand): SideLandmarks => sideLandmarks(oppositeSide(hand));
+
+/** The block-leg error class for a thrower, e.g. 'Poor Right Leg Block' for left-handers */
+export const blockErrorPrediction = (hand: ThrowingHand): TechniquePrediction =>
+  hand === 'left' ? 'Poor Right Leg Block' : 'Poor Left Leg Block';
+
+export const isBlockErrorPrediction = (prediction: string): boolean =>
+  prediction === 'Poor Left Leg Block' || prediction === 'Poor Right Leg Block';
+
+// Index of each landmark's mirror image (left_* <-> right_*)
+const MIRRORED_INDEX = LANDMARK_NAMES.map((name, index) => {
+  const mirroredName = name.includes('left') ? name.replace('left', 'right') : name.replace('right', 'left');
+  const mirrored = landmarkIndex(mirroredName as LandmarkName);
+  return mirrored >= 0 ? mirrored : index;
+});
+
+/**
+ * Mirror a pose left-to-right so a left-handed throw looks right-handed
+ * (used to feed models trained on right-handed throwers)
+ */
+export function mirrorPoseFrame(frame: PoseFrame): PoseFrame {
+  return {
+    ...frame,
+    landmarks: frame.landmarks.map((_, index) => {
+      const source = frame.landmarks[MIRRORED_INDEX[index]];
+      return { ...source, x: 1 - source.x };
+    })
+  };
+}
+
+/**
+ * Guess the throwing hand from which wrist reaches the higher speed relative
+ * to the hips (the throwing wrist peaks at release)
+ */
+export function detectThrowingHand(poseSequence: PoseFrame[]): ThrowingHand {
+  const peakWristSpeed = (side: ThrowingHand) => {
+    const { wrist } = sideLandmarks(side);
+    const { hip: leftHip } = sideLandmarks('left');
+    const { hip: rightHip } = sideLandmarks('right');
+    let peak = 0;
+    for (let i = 1; i < poseSequence.length; i++) {
+      const previous = poseSequence[i - 1];
+      const current = poseSequence[i];
+      const dt = (current.timestamp - previous.timestamp) / 1000;
+      if (dt <= 0) continue;
+      const relative = (frame: PoseFrame) => ({
+        x: frame.landmarks[wrist].x - (frame.landmarks[leftHip].x + frame.landmarks[rightHip].x) / 2,
+        y: frame.landmarks[wrist].y - (frame.landmarks[leftHip].y + frame.landmarks[rightHip].y) / 2
+      });
+      const a = relative(previous);
+      const b = relative(current);
+      peak = Math.max(peak, Math.hypot(b.x - a.x, b.y - a.y) / dt);
+    }
+    return peak;
+  };
+
+  return peakWristSpeed('left') > peakWristSpeed('right') ? 'left' : 'right';
+}
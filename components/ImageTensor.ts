@@ -0,0 +1,19 @@
+/**
+ * Image helpers for the on-device pipeline
+ * Converts files on disk into TF.js tensors
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { decodeJpeg } from '@tensorflow/tfjs-react-native';
+import * as FileSystem from 'expo-file-system';
+
+/**
+ * Decode a JPEG file into an RGB tensor of shape [height, width, 3]
+ */
+export async function loadImageTensor(uri: string): Promise<tf.Tensor3D> {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+  const bytes = tf.util.encodeString(base64, 'base64');
+  return decodeJpeg(bytes, 3);
+}
@@ -0,0 +1,117 @@
+/**
+ * Typed MediaPipe Pose joint map shared by the analysis engine and PoseOverlay
+ * Every landmark has a side and a body segment; the skeleton connections and
+ * the per-prediction fault attribution are defined on top of that.
+ */
+
+import { TechniquePrediction } from './AIAnalysisEngine';
+
+export const LANDMARK_NAMES = [
+  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer',
+  'right_eye_inner', 'right_eye', 'right_eye_outer', 'left_ear',
+  'right_ear', 'mouth_left', 'mouth_right', 'left_shoulder',
+  'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist',
+  'right_wrist', 'left_pinky', 'right_pinky', 'left_index',
+  'right_index', 'left_thumb', 'right_thumb', 'left_hip',
+  'right_hip', 'left_knee', 'right_knee', 'left_ankle',
+  'right_ankle', 'left_heel', 'right_heel', 'left_foot_index',
+  'right_foot_index'
+] as const;
+
+export type LandmarkName = typeof LANDMARK_NAMES[number];
+
+export type BodySide = 'left' | 'right' | 'center';
+
+export type BodySegment = 'head' | 'arm' | 'hand' | 'torso' | 'leg' | 'foot';
+
+/** Limb a joint belongs to from the thrower's point of view */
+export type ThrowRole = 'throwingArm' | 'blockLeg' | 'free';
+
+export type ThrowingHand = 'left' | 'right';
+
+export interface JointRole {
+  index: number;
+  name: LandmarkName;
+  side: BodySide;
+  segment: BodySegment;
+}
+
+const SEGMENT_BY_JOINT: Record<string, BodySegment> = {
+  shoulder: 'arm',
+  elbow: 'arm',
+  wrist: 'arm',
+  pinky: 'hand',
+  index: 'hand',
+  thumb: 'hand',
+  hip: 'leg',
+  knee: 'leg',
+  ankle: 'leg',
+  heel: 'foot',
+  foot_index: 'foot'
+};
+
+export const JOINT_ROLES: JointRole[] = LANDMARK_NAMES.map((name, index) => {
+  const side: BodySide = name.startsWith('left_') || name === 'mouth_left'
+    ? 'left'
+    : name.startsWith('right_') || name === 'mouth_right'
+      ? 'right'
+      : 'center';
+  const joint = name.replace(/^(left|right)_/, '');
+  return { index, name, side, segment: SEGMENT_BY_JOINT[joint] ?? 'head' };
+});
+
+export const landmarkIndex = (name: LandmarkName): number => LANDMARK_NAMES.indexOf(name);
+
+/** Skeleton edges drawn by PoseOverlay */
+export const POSE_CONNECTIONS: [number, number][] = [
+  // Face
+  [0, 1], [1, 2], [2, 3], [3, 7],
+  [0, 4], [4, 5], [5, 6], [6, 8],
+
+  // Torso
+  [9, 10], [11, 12], [11, 13], [13, 15],
+  [15, 17], [15, 19], [15, 21], [17, 19],
+  [12, 14], [14, 16], [16, 18], [16, 20],
+  [16, 22], [18, 20], [11, 23], [12, 24],
+  [23, 24],
+
+  // Left leg
+  [23, 25], [25, 27], [27, 29], [29, 31],
+  [27, 31],
+
+  // Right leg
+  [24, 26], [26, 28], [28, 30], [30, 32],
+  [28, 32]
+];
+
+export const oppositeSide = (hand: ThrowingHand): ThrowingHand => (hand === 'right' ? 'left' : 'right');
+
+/**
+ * Role of a joint for a thrower: the throwing arm is the arm and hand on the
+ * throwing side, the block leg is the leg and foot on the other side
+ */
+export function throwRoleOf(index: number, hand: ThrowingHand): ThrowRole {
+  const role = JOINT_ROLES[index];
+  if (!role) return 'free';
+  if (role.side === hand && (role.segment === 'arm' || role.segment === 'hand')) return 'throwingArm';
+  if (role.side === oppositeSide(hand) && (role.segment === 'leg' || role.segment === 'foot')) return 'blockLeg';
+  return 'free';
+}
+
+/** Limbs held responsible for each prediction */
+export const PREDICTION_FAULTS: Record<TechniquePrediction, ThrowRole[]> = {
+  'Good Technique': [],
+  'Low Arm': ['throwingArm'],
+  'Poor Left Leg Block': ['blockLeg'],
+  'Poor Right Leg Block': ['blockLeg'],
+  'Both Errors': ['throwingArm', 'blockLeg']
+};
+
+/**
+ * Whether a joint is drawn as correct for a prediction. Unknown predictions
+ * (e.g. from a newer server) mark nothing as faulty.
+ */
+export function isJointCorrect(index: number, prediction: string, hand: ThrowingHand): boolean {
+  const faults = PREDICTION_FAULTS[prediction as TechniquePrediction] ?? [];
+  return !faults.includes(throwRoleOf(index, hand));
+}
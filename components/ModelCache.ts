@@ -0,0 +1,111 @@
+/**
+ * On-disk cache for TF.js graph models
+ * Each model is downloaded once and loaded from the document directory after
+ * that, so on-device analysis keeps working without a network connection.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import * as FileSystem from 'expo-file-system';
+
+const CACHE_DIR = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}models/` : null;
+
+export interface ModelSource {
+  url: string;
+  headers?: Record<string, string>;
+  fromTFHub?: boolean; // url is a TF Hub handle rather than a model.json
+}
+
+interface CachePaths {
+  dir: string;
+  artifacts: string; // topology and weight specs as JSON
+  weights: string; // concatenated weight data, base64
+}
+
+// Same resolution tf.loadGraphModel applies to TF Hub handles
+const modelJsonUrl = (source: ModelSource): string =>
+  source.fromTFHub ? `${source.url.replace(/\/+$/, '')}/model.json?tfjs-format=file` : source.url;
+
+// djb2; only needs to keep different URLs apart
+const hashUrl = (url: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i++) hash = ((hash << 5) + hash + url.charCodeAt(i)) >>> 0;
+  return hash.toString(16).padStart(8, '0');
+};
+
+const cachePaths = (cacheDir: string, source: ModelSource): CachePaths => {
+  const dir = `${cacheDir}${hashUrl(modelJsonUrl(source))}/`;
+  return { dir, artifacts: `${dir}model.json`, weights: `${dir}weights.bin` };
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so String.fromCharCode does not exceed the argument limit
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+async function readArtifacts(paths: CachePaths): Promise<tf.io.ModelArtifacts> {
+  const [json, weights] = await Promise.all([
+    FileSystem.readAsStringAsync(paths.artifacts),
+    FileSystem.readAsStringAsync(paths.weights, { encoding: FileSystem.EncodingType.Base64 })
+  ]);
+  return { ...(JSON.parse(json) as tf.io.ModelArtifacts), weightData: base64ToArrayBuffer(weights) };
+}
+
+async function writeArtifacts(paths: CachePaths, artifacts: tf.io.ModelArtifacts): Promise<void> {
+  const { weightData, ...rest } = artifacts;
+  await FileSystem.makeDirectoryAsync(paths.dir, { intermediates: true }).catch(() => {});
+  // Weights first: the JSON file marks a complete entry
+  await FileSystem.writeAsStringAsync(
+    paths.weights,
+    arrayBufferToBase64(tf.io.CompositeArrayBuffer.join(weightData)),
+    { encoding: FileSystem.EncodingType.Base64 }
+  );
+  await FileSystem.writeAsStringAsync(paths.artifacts, JSON.stringify(rest));
+}
+
+/** Whether the model loads without a network connection */
+export async function isModelCached(source: ModelSource): Promise<boolean> {
+  if (!CACHE_DIR) return false;
+  const info = await FileSystem.getInfoAsync(cachePaths(CACHE_DIR, source).artifacts);
+  return info.exists;
+}
+
+/**
+ * Load a graph model from the cache, downloading and caching it first when
+ * it is not there yet. Without a document directory (web) the model is
+ * fetched every time.
+ */
+export async function loadCachedGraphModel(source: ModelSource): Promise<tf.GraphModel> {
+  const loadOptions: tf.io.LoadOptions = { requestInit: { headers: source.headers ?? {} } };
+  if (!CACHE_DIR) return tf.loadGraphModel(modelJsonUrl(source), loadOptions);
+
+  const paths = cachePaths(CACHE_DIR, source);
+  if (await isModelCached(source)) {
+    try {
+      return await tf.loadGraphModel(tf.io.fromMemory(await readArtifacts(paths)));
+    } catch (error) {
+      console.warn('Cached model is unreadable, downloading it again:', error);
+      await FileSystem.deleteAsync(paths.dir, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  const handler = tf.io.http(modelJsonUrl(source), loadOptions);
+  if (!handler.load) throw new Error('HTTP model handler cannot load');
+  const artifacts = await handler.load();
+  await writeArtifacts(paths, artifacts).catch(error => {
+    console.warn('Failed to cache model:', error);
+    return FileSystem.deleteAsync(paths.dir, { idempotent: true }).catch(() => {});
+  });
+  return tf.loadGraphModel(tf.io.fromMemory(artifacts));
+}
@@ -0,0 +1,160 @@
+/**
+ * Minimal ISO-BMFF (MP4 / MOV) header parser
+ * Reads duration, frame rate and dimensions of the first video track
+ * without decoding any media.
+ */
+
+export interface VideoMetadata {
+  durationMs: number;
+  frameRate: number;
+  frameCount: number;
+  width: number;
+  height: number;
+}
+
+/** Reads `length` bytes starting at `offset` (may return fewer at end of file) */
+export type ByteRangeReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+interface Box {
+  type: string;
+  start: number; // offset of the box header
+  headerSize: number;
+  size: number; // total size including header
+}
+
+const CONTAINER_BOXES = ['moov', 'trak', 'mdia', 'minf', 'stbl'];
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+const readUint64 = (bytes: Uint8Array, offset: number): number =>
+  readUint32(bytes, offset) * 2 ** 32 + readUint32(bytes, offset + 4);
+
+const readType = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+function parseBoxHeader(bytes: Uint8Array, offset: number, limit: number): Box | null {
+  if (offset + 8 > limit) return null;
+  let size = readUint32(bytes, offset);
+  const type = readType(bytes, offset + 4);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > limit) return null;
+    size = readUint64(bytes, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset; // box extends to the end of its parent
+  }
+  if (size < headerSize) return null;
+  return { type, start: offset, headerSize, size };
+}
+
+function childBoxes(bytes: Uint8Array, parent: Box): Box[] {
+  const children: Box[] = [];
+  const end = Math.min(parent.start + parent.size, bytes.length);
+  let offset = parent.start + parent.headerSize;
+  while (offset < end) {
+    const box = parseBoxHeader(bytes, offset, end);
+    if (!box) break;
+    children.push(box);
+    offset += box.size;
+  }
+  return children;
+}
+
+function findChild(bytes: Uint8Array, parent: Box, path: string[]): Box | null {
+  let current: Box | null = parent;
+  for (const type of path) {
+    if (!current || !CONTAINER_BOXES.includes(current.type)) return null;
+    current = childBoxes(bytes, current).find(box => box.type === type) ?? null;
+  }
+  return current;
+}
+
+/** Timescale and duration from an mvhd or mdhd full box */
+function readTimescaleDuration(bytes: Uint8Array, box: Box): { timescale: number; duration: number } {
+  const payload = box.start + box.headerSize;
+  const version = bytes[payload];
+  return version === 1
+    ? { timescale: readUint32(bytes, payload + 20), duration: readUint64(bytes, payload + 24) }
+    : { timescale: readUint32(bytes, payload + 12), duration: readUint32(bytes, payload + 16) };
+}
+
+/** Track width and height (16.16 fixed point) from a tkhd box */
+function readTrackDimensions(bytes: Uint8Array, box: Box): { width: number; height: number } {
+  const payload = box.start + box.headerSize;
+  const offset = payload + (bytes[payload] === 1 ? 88 : 76);
+  return {
+    width: readUint32(bytes, offset) / 65536,
+    height: readUint32(bytes, offset + 4) / 65536
+  };
+}
+
+/** Sample count and summed sample deltas from an stts box */
+function readSampleTiming(bytes: Uint8Array, box: Box): { sampleCount: number; totalDelta: number } {
+  const payload = box.start + box.headerSize;
+  const entryCount = readUint32(bytes, payload + 4);
+  let sampleCount = 0;
+  let totalDelta = 0;
+  for (let i = 0; i < entryCount; i++) {
+    const entry = payload + 8 + i * 8;
+    const count = readUint32(bytes, entry);
+    sampleCount += count;
+    totalDelta += count * readUint32(bytes, entry + 4);
+  }
+  return { sampleCount, totalDelta };
+}
+
+/**
+ * Locate the top-level moov box. Only box headers are read, so large
+ * mdat payloads before the moov (non-faststart files) are skipped cheaply.
+ */
+async function readMoov(read: ByteRangeReader, fileSize: number): Promise<Uint8Array> {
+  let offset = 0;
+  while (offset < fileSize) {
+    const header = await read(offset, 16);
+    const box = parseBoxHeader(header, 0, header.length);
+    if (!box) break;
+    // A size of 0 means the box runs to the end of the file
+    const size = readUint32(header, 0) === 0 ? fileSize - offset : box.size;
+    if (box.type === 'moov') {
+      return read(offset, size);
+    }
+    offset += size;
+  }
+  throw new Error('No moov box found; file is not a supported MP4/MOV video');
+}
+
+export async function parseMp4Metadata(read: ByteRangeReader, fileSize: number): Promise<VideoMetadata> {
+  const bytes = await readMoov(read, fileSize);
+  const moov = parseBoxHeader(bytes, 0, bytes.length);
+  if (!moov) {
+    throw new Error('Malformed moov box');
+  }
+
+  for (const trak of childBoxes(bytes, moov).filter(box => box.type === 'trak')) {
+    const hdlr = findChild(bytes, trak, ['mdia', 'hdlr']);
+    if (!hdlr || readType(bytes, hdlr.start + hdlr.headerSize + 8) !== 'vide') continue;
+
+    const mdhd = findChild(bytes, trak, ['mdia', 'mdhd']);
+    const stts = findChild(bytes, trak, ['mdia', 'minf', 'stbl', 'stts']);
+    const tkhd = findChild(bytes, trak, ['tkhd']);
+    if (!mdhd || !stts) continue;
+
+    const { timescale, duration } = readTimescaleDuration(bytes, mdhd);
+    const { sampleCount, totalDelta } = readSampleTiming(bytes, stts);
+    const mediaDuration = totalDelta > 0 ? totalDelta : duration;
+    if (!timescale || !mediaDuration || !sampleCount) continue;
+
+    const { width, height } = tkhd ? readTrackDimensions(bytes, tkhd) : { width: 0, height: 0 };
+    return {
+      durationMs: (mediaDuration / timescale) * 1000,
+      frameRate: sampleCount / (mediaDuration / timescale),
+      frameCount: sampleCount,
+      width,
+      height
+    };
+  }
+
+  throw new Error('No video track found');
+}
@@ -0,0 +1,121 @@
+/**
+ * Person detection for locating athletes in full video frames
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-react-native';
+import { BoundingBox } from './AIAnalysisEngine';
+import { isModelCached, loadCachedGraphModel } from './ModelCache';
+import { PERSON_DETECTOR_MODEL_URL } from '@/src/config';
+
+export interface PersonDetector {
+  load(): Promise<void>;
+  /** All people in the image, normalized to its size, highest confidence first */
+  detect(image: tf.Tensor3D): Promise<BoundingBox[]>;
+  /** Whether load() works without a network connection; assumed when absent */
+  isAvailableOffline?(): Promise<boolean>;
+  dispose(): void;
+}
+
+const PERSON_CLASS_INDEX = 0; // COCO 'person' is the first class in the score tensor
+const MAX_DETECTIONS = 10;
+const SCORE_THRESHOLD = 0.4;
+const IOU_THRESHOLD = 0.5;
+
+/**
+ * SSDLite MobileNetV2 trained on COCO (the coco-ssd 'lite_mobilenet_v2' weights)
+ */
+export class TfjsPersonDetector implements PersonDetector {
+  private model: tf.GraphModel | null = null;
+
+  constructor(private readonly modelUrl: string = PERSON_DETECTOR_MODEL_URL) {}
+
+  async load(): Promise<void> {
+    if (this.model) return;
+    await tf.ready();
+    console.log('Loading SSDLite person detector...');
+    this.model = await loadCachedGraphModel({ url: this.modelUrl });
+  }
+
+  isAvailableOffline(): Promise<boolean> {
+    return isModelCached({ url: this.modelUrl });
+  }
+
+  async detect(image: tf.Tensor3D): Promise<BoundingBox[]> {
+    if (!this.model) {
+      throw new Error('Person detector not loaded');
+    }
+
+    const batched = tf.tidy(() => image.toInt().expandDims(0));
+    const outputs = (await this.model.executeAsync(batched)) as tf.Tensor[];
+    try {
+      // outputs[0]: class scores [1, N, classes]; outputs[1]: boxes [1, N, 1, 4] as [minY, minX, maxY, maxX]
+      const [, numBoxes, numClasses] = outputs[0].shape;
+      const scores = await outputs[0].data();
+      const boxes = await outputs[1].data();
+
+      const personScores = new Float32Array(numBoxes);
+      for (let i = 0; i < numBoxes; i++) {
+        personScores[i] = scores[i * numClasses + PERSON_CLASS_INDEX];
+      }
+
+      const keep = tf.tidy(() =>
+        tf.image.nonMaxSuppression(
+          tf.tensor2d(boxes as Float32Array, [numBoxes, 4]),
+          personScores,
+          MAX_DETECTIONS,
+          IOU_THRESHOLD,
+          SCORE_THRESHOLD
+        )
+      );
+      const indices = await keep.data();
+      keep.dispose();
+
+      return Array.from(indices).map(index => {
+        const minY = Math.max(0, boxes[index * 4]);
+        const minX = Math.max(0, boxes[index * 4 + 1]);
+        const maxY = Math.min(1, boxes[index * 4 + 2]);
+        const maxX = Math.min(1, boxes[index * 4 + 3]);
+        return {
+          x: minX,
+          y: minY,
+          width: maxX - minX,
+          height: maxY - minY,
+          confidence: personScores[index]
+        };
+      });
+    } finally {
+      batched.dispose();
+      outputs.forEach(output => output.dispose());
+    }
+  }
+
+  dispose(): void {
+    this.model?.dispose();
+    this.model = null;
+  }
+}
+
+/**
+ * Deterministic detector for unit tests; returns the fixture boxes for each
+ * call in order, wrapping around when the fixture runs out
+ */
+export class FixturePersonDetector implements PersonDetector {
+  private callCount = 0;
+
+  constructor(private readonly frames: BoundingBox[][]) {}
+
+  async load(): Promise<void> {
+    this.callCount = 0;
+  }
+
+  async detect(_image: tf.Tensor3D): Promise<BoundingBox[]> {
+    const boxes = this.frames.length > 0 ? this.frames[this.callCount % this.frames.length] : [];
+    this.callCount++;
+    return boxes.map(box => ({ ...box }));
+  }
+
+  dispose(): void {
+    this.callCount = 0;
+  }
+}
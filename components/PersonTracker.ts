@@ -0,0 +1,184 @@
+/**
+ * Multi-person tracking across sampled frames
+ * Gives every detected person a persistent track ID so the thrower can be
+ * separated from coaches and other athletes standing near the runway.
+ */
+
+import { BoundingBox } from './AIAnalysisEngine';
+
+export interface TrackedDetection {
+  frame: number;
+  timestamp: number;
+  bbox: BoundingBox;
+}
+
+export interface Track {
+  id: number;
+  detections: TrackedDetection[];
+}
+
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+export interface ThrowerSelectionOptions {
+  /** Tap on the first frame marking the thrower, normalized to the frame */
+  tapPoint?: NormalizedPoint;
+  /** Side of the frame the foul line is on; inferred from motion when omitted */
+  foulLineSide?: 'left' | 'right';
+}
+
+interface ActiveTrack {
+  track: Track;
+  missedFrames: number;
+  velocityX: number; // box center motion per update, normalized
+  velocityY: number;
+}
+
+const IOU_THRESHOLD = 0.2;
+const MAX_MISSED_FRAMES = 10;
+// A track must cover this share of the clip to be considered the thrower
+const MIN_TRACK_COVERAGE = 0.3;
+
+const centerOf = (box: BoundingBox): NormalizedPoint => ({
+  x: box.x + box.width / 2,
+  y: box.y + box.height / 2
+});
+
+export function intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+export class PersonTracker {
+  private tracks: Track[] = [];
+  private active: ActiveTrack[] = [];
+  private nextId = 1;
+
+  /**
+   * Associate one frame's detections with existing tracks (greedy IoU against
+   * each track's motion-predicted box) and start new tracks for the rest
+   */
+  update(frame: number, timestamp: number, boxes: BoundingBox[]): (TrackedDetection & { trackId: number })[] {
+    const candidates: { activeIndex: number; boxIndex: number; score: number }[] = [];
+    this.active.forEach((active, activeIndex) => {
+      const last = active.track.detections[active.track.detections.length - 1].bbox;
+      const steps = active.missedFrames + 1;
+      const predicted = {
+        ...last,
+        x: last.x + active.velocityX * steps,
+        y: last.y + active.velocityY * steps
+      };
+      boxes.forEach((box, boxIndex) => {
+        const score = intersectionOverUnion(predicted, box);
+        if (score >= IOU_THRESHOLD) {
+          candidates.push({ activeIndex, boxIndex, score });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assigned = new Map<number, number>(); // boxIndex -> activeIndex
+    const matchedActive = new Set<number>();
+    for (const candidate of candidates) {
+      if (assigned.has(candidate.boxIndex) || matchedActive.has(candidate.activeIndex)) continue;
+      assigned.set(candidate.boxIndex, candidate.activeIndex);
+      matchedActive.add(candidate.activeIndex);
+    }
+
+    const results: (TrackedDetection & { trackId: number })[] = [];
+    boxes.forEach((bbox, boxIndex) => {
+      const detection: TrackedDetection = { frame, timestamp, bbox };
+      const activeIndex = assigned.get(boxIndex);
+
+      if (activeIndex !== undefined) {
+        const active = this.active[activeIndex];
+        const previous = centerOf(active.track.detections[active.track.detections.length - 1].bbox);
+        const current = centerOf(bbox);
+        const steps = active.missedFrames + 1;
+        active.velocityX = (current.x - previous.x) / steps;
+        active.velocityY = (current.y - previous.y) / steps;
+        active.missedFrames = 0;
+        active.track.detections.push(detection);
+        results.push({ ...detection, trackId: active.track.id });
+      } else {
+        const track: Track = { id: this.nextId++, detections: [detection] };
+        this.tracks.push(track);
+        this.active.push({ track, missedFrames: 0, velocityX: 0, velocityY: 0 });
+        results.push({ ...detection, trackId: track.id });
+      }
+    });
+
+    // Age out tracks that went unmatched this frame
+    this.active = this.active.filter(active => {
+      if (active.track.detections[active.track.detections.length - 1].frame === frame) {
+        return true;
+      }
+      active.missedFrames++;
+      return active.missedFrames <= MAX_MISSED_FRAMES;
+    });
+
+    return results;
+  }
+
+  getTracks(): Track[] {
+    return this.tracks;
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.active = [];
+    this.nextId = 1;
+  }
+}
+
+/**
+ * Pick the thrower's track. A tap on the first frame wins; otherwise the
+ * track with the most travel toward the foul line (or simply the most
+ * horizontal travel when the foul line side is unknown) is chosen.
+ */
+export function selectThrowerTrack(
+  tracks: Track[],
+  sampledFrameCount: number,
+  options: ThrowerSelectionOptions = {}
+): Track | null {
+  if (tracks.length === 0) return null;
+
+  const { tapPoint, foulLineSide } = options;
+  if (tapPoint) {
+    const firstFrame = Math.min(...tracks.map(track => track.detections[0].frame));
+    const candidates = tracks.filter(track => track.detections[0].frame === firstFrame);
+    const containing = candidates.filter(track => {
+      const { x, y, width, height } = track.detections[0].bbox;
+      return tapPoint.x >= x && tapPoint.x <= x + width && tapPoint.y >= y && tapPoint.y <= y + height;
+    });
+    const pool = containing.length > 0 ? containing : candidates;
+    const distance = (track: Track) => {
+      const center = centerOf(track.detections[0].bbox);
+      return Math.hypot(center.x - tapPoint.x, center.y - tapPoint.y);
+    };
+    return pool.reduce((best, track) => (distance(track) < distance(best) ? track : best));
+  }
+
+  const minDetections = Math.max(2, Math.floor(sampledFrameCount * MIN_TRACK_COVERAGE));
+  const eligible = tracks.filter(track => track.detections.length >= minDetections);
+  if (eligible.length === 0) {
+    // Nobody was tracked for long; fall back to the longest track
+    return tracks.reduce((best, track) => (track.detections.length > best.detections.length ? track : best));
+  }
+
+  const travel = (track: Track) => {
+    const start = centerOf(track.detections[0].bbox).x;
+    const end = centerOf(track.detections[track.detections.length - 1].bbox).x;
+    if (foulLineSide === 'right') return end - start;
+    if (foulLineSide === 'left') return start - end;
+    return Math.abs(end - start);
+  };
+  return eligible.reduce((best, track) => (travel(track) > travel(best) ? track : best));
+}
@@ -0,0 +1,199 @@
+/**
+ * Throw phase segmentation from landmark kinematics
+ * Labels each PoseFrame as approach, crossover, block, release or
+ * follow-through, anchored on the detected release frame.
+ */
+
+import { PoseFrame, PoseLandmark } from './AIAnalysisEngine';
+import { blockSideLandmarks, throwingSideLandmarks, ThrowingHand } from './Handedness';
+import { landmarkIndex } from './JointRoles';
+
+export type ThrowPhase = 'approach' | 'crossover' | 'block' | 'release' | 'followThrough';
+
+export const THROW_PHASES: ThrowPhase[] = ['approach', 'crossover', 'block', 'release', 'followThrough'];
+
+export const PHASE_LABELS: Record<ThrowPhase, string> = {
+  approach: 'Approach',
+  crossover: 'Crossover',
+  block: 'Block / Plant',
+  release: 'Release',
+  followThrough: 'Follow-through'
+};
+
+export interface PhaseBoundary {
+  phase: ThrowPhase;
+  startFrame: number;
+  endFrame: number;
+  startTime: number; // ms
+  endTime: number; // ms
+}
+
+export interface PhaseSegmentation {
+  phases: PhaseBoundary[];
+  releaseFrame: number;
+  releaseTimestamp: number;
+}
+
+const LEFT_SHOULDER = landmarkIndex('left_shoulder');
+const RIGHT_SHOULDER = landmarkIndex('right_shoulder');
+const LEFT_HIP = landmarkIndex('left_hip');
+const RIGHT_HIP = landmarkIndex('right_hip');
+
+// Half-width of the release phase around the wrist speed peak
+const RELEASE_HALF_WINDOW_MS = 60;
+// Block foot counts as planted below this speed (torso lengths per second)
+const PLANT_SPEED_THRESHOLD = 1.0;
+const MAX_BLOCK_DURATION_MS = 400;
+// Wrist this far behind the shoulder (torso lengths) means the javelin is withdrawn
+const WITHDRAWN_ARM_DISTANCE = 0.35;
+const DEFAULT_CROSSOVER_DURATION_MS = 600;
+
+const midpoint = (a: PoseLandmark, b: PoseLandmark) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+/**
+ * Speed of a point per frame (central difference over real timestamps),
+ * in torso lengths per second
+ */
+function pointSpeeds(
+  frames: PoseFrame[],
+  point: (frame: PoseFrame) => { x: number; y: number },
+  torsoLength: number
+): number[] {
+  return frames.map((_, index) => {
+    const before = frames[Math.max(0, index - 1)];
+    const after = frames[Math.min(frames.length - 1, index + 1)];
+    const dt = (after.timestamp - before.timestamp) / 1000;
+    if (dt <= 0) return 0;
+    const a = point(before);
+    const b = point(after);
+    return Math.hypot(b.x - a.x, b.y - a.y) / torsoLength / dt;
+  });
+}
+
+/**
+ * Segment a pose sequence into throw phases. Returns null when the sequence
+ * is too short to find a release.
+ */
+export function segmentThrowPhases(
+  poseSequence: PoseFrame[],
+  hand: ThrowingHand = 'right'
+): PhaseSegmentation | null {
+  if (poseSequence.length < 3) return null;
+
+  const throwing = throwingSideLandmarks(hand);
+  const block = blockSideLandmarks(hand);
+
+  const hipCenter = (frame: PoseFrame) => midpoint(frame.landmarks[LEFT_HIP], frame.landmarks[RIGHT_HIP]);
+  const torsoLength = median(
+    poseSequence.map(frame => {
+      const shoulders = midpoint(frame.landmarks[LEFT_SHOULDER], frame.landmarks[RIGHT_SHOULDER]);
+      const hips = hipCenter(frame);
+      return Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+    })
+  ) || 1;
+
+  // Release: peak throwing-wrist speed relative to the hips, so run-up
+  // translation does not dominate
+  const wristSpeeds = pointSpeeds(poseSequence, frame => {
+    const hips = hipCenter(frame);
+    const wrist = frame.landmarks[throwing.wrist];
+    return { x: wrist.x - hips.x, y: wrist.y - hips.y };
+  }, torsoLength);
+  const releaseIndex = wristSpeeds.reduce((best, speed, index) => (speed > wristSpeeds[best] ? index : best), 0);
+  const releaseTime = poseSequence[releaseIndex].timestamp;
+
+  // Block: the contiguous stretch before release where the block foot is planted
+  const ankleSpeeds = pointSpeeds(poseSequence, frame => frame.landmarks[block.ankle], torsoLength);
+  let plantIndex = releaseIndex;
+  while (
+    plantIndex > 0 &&
+    ankleSpeeds[plantIndex - 1] < PLANT_SPEED_THRESHOLD &&
+    releaseTime - poseSequence[plantIndex - 1].timestamp <= MAX_BLOCK_DURATION_MS
+  ) {
+    plantIndex--;
+  }
+
+  // Crossover: before the plant, while the throwing arm is withdrawn behind
+  // the shoulder (relative to the direction of travel)
+  const travel = hipCenter(poseSequence[plantIndex]).x - hipCenter(poseSequence[0]).x;
+  const direction = travel >= 0 ? 1 : -1;
+  const isArmWithdrawn = (frame: PoseFrame) =>
+    (frame.landmarks[throwing.shoulder].x - frame.landmarks[throwing.wrist].x) * direction / torsoLength >
+    WITHDRAWN_ARM_DISTANCE;
+  let crossoverIndex = plantIndex;
+  while (crossoverIndex > 0 && isArmWithdrawn(poseSequence[crossoverIndex - 1])) {
+    crossoverIndex--;
+  }
+  if (crossoverIndex === plantIndex) {
+    const crossoverStart = poseSequence[plantIndex].timestamp - DEFAULT_CROSSOVER_DURATION_MS;
+    while (crossoverIndex > 0 && poseSequence[crossoverIndex - 1].timestamp >= crossoverStart) {
+      crossoverIndex--;
+    }
+  }
+
+  const phaseAt = (index: number): ThrowPhase => {
+    const time = poseSequence[index].timestamp;
+    if (Math.abs(time - releaseTime) <= RELEASE_HALF_WINDOW_MS) return 'release';
+    if (time > releaseTime) return 'followThrough';
+    if (index >= plantIndex) return 'block';
+    if (index >= crossoverIndex) return 'crossover';
+    return 'approach';
+  };
+
+  const phases: PhaseBoundary[] = [];
+  poseSequence.forEach((frame, index) => {
+    const phase = phaseAt(index);
+    const current = phases[phases.length - 1];
+    if (current && current.phase === phase) {
+      current.endFrame = frame.frame;
+      current.endTime = frame.timestamp;
+    } else {
+      phases.push({
+        phase,
+        startFrame: frame.frame,
+        endFrame: frame.frame,
+        startTime: frame.timestamp,
+        endTime: frame.timestamp
+      });
+    }
+  });
+
+  return {
+    phases,
+    releaseFrame: poseSequence[releaseIndex].frame,
+    releaseTimestamp: releaseTime
+  };
+}
+
+/**
+ * Copy of the sequence with each frame's phase filled in
+ */
+export function labelPhases(poseSequence: PoseFrame[], segmentation: PhaseSegmentation): PoseFrame[] {
+  return poseSequence.map(frame => ({
+    ...frame,
+    phase: segmentation.phases.find(
+      boundary => frame.frame >= boundary.startFrame && frame.frame <= boundary.endFrame
+    )?.phase
+  }));
+}
+
+/**
+ * Fixed-size window of the sequence centred on the release frame
+ */
+export function releaseCenteredWindow(
+  poseSequence: PoseFrame[],
+  segmentation: PhaseSegmentation,
+  size: number
+): PoseFrame[] {
+  const releaseIndex = Math.max(0, poseSequence.findIndex(frame => frame.frame === segmentation.releaseFrame));
+  const start = Math.min(
+    Math.max(0, releaseIndex - Math.floor(size / 2)),
+    Math.max(0, poseSequence.length - size)
+  );
+  return poseSequence.slice(start, start + size);
+}
@@ -0,0 +1,73 @@
+/**
+ * Pose estimation backends
+ * A backend turns an RGB image into the 33 MediaPipe pose landmarks
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { PoseLandmark } from './AIAnalysisEngine';
+
+export const POSE_LANDMARK_COUNT = 33;
+
+export interface PoseBackend {
+  /** Load model weights; called once from AIAnalysisEngine.initialize() */
+  load(): Promise<void>;
+  /**
+   * Estimate landmarks for a single image. Coordinates are normalized to the
+   * image passed in; an empty array means no person was found.
+   */
+  estimate(image: tf.Tensor3D): Promise<PoseLandmark[]>;
+  /** Side of the square the model sees; larger crops may be downscaled to it beforehand */
+  readonly inputSize?: number;
+  /** Whether load() works without a network connection; assumed when absent */
+  isAvailableOffline?(): Promise<boolean>;
+  dispose(): void;
+}
+
+// Neutral standing pose facing the camera, in MediaPipe landmark order
+const STANDING_POSE: [number, number][] = [
+  [0.50, 0.15], [0.51, 0.13], [0.52, 0.13], [0.53, 0.13],
+  [0.49, 0.13], [0.48, 0.13], [0.47, 0.13], [0.54, 0.14],
+  [0.46, 0.14], [0.51, 0.17], [0.49, 0.17], [0.56, 0.25],
+  [0.44, 0.25], [0.58, 0.36], [0.42, 0.36], [0.59, 0.46],
+  [0.41, 0.46], [0.60, 0.48], [0.40, 0.48], [0.60, 0.49],
+  [0.40, 0.49], [0.59, 0.48], [0.41, 0.48], [0.54, 0.52],
+  [0.46, 0.52], [0.55, 0.68], [0.45, 0.68], [0.55, 0.84],
+  [0.45, 0.84], [0.555, 0.86], [0.445, 0.86], [0.57, 0.87],
+  [0.43, 0.87]
+];
+
+export const STANDING_POSE_FIXTURE: PoseLandmark[] = STANDING_POSE.map(([x, y]) => ({
+  x,
+  y,
+  z: 0,
+  visibility: 0.99
+}));
+
+/**
+ * Deterministic backend for unit tests and offline development.
+ * Returns the given fixture frames in order, one per estimate() call,
+ * wrapping around when the fixture runs out. Pixels are ignored.
+ */
+export class FixturePoseBackend implements PoseBackend {
+  private callCount = 0;
+
+  constructor(private readonly frames: PoseLandmark[][] = [STANDING_POSE_FIXTURE]) {
+    if (frames.length === 0) {
+      throw new Error('FixturePoseBackend requires at least one fixture frame');
+    }
+  }
+
+  async load(): Promise<void> {
+    this.callCount = 0;
+  }
+
+  async estimate(_image: tf.Tensor3D): Promise<PoseLandmark[]> {
+    const frame = this.frames[this.callCount % this.frames.length];
+    this.callCount++;
+    return frame.map(landmark => ({ ...landmark }));
+  }
+
+  dispose(): void {
+    this.callCount = 0;
+  }
+}
@@ -1,60 +1,75 @@
 import React from 'react';
-import { View, StyleSheet, Dimensions } from 'react-native';
-import { Svg, Circle, Line } from 'react-native-svg';
-import { PoseLandmark } from './AIAnalysisEngine';
+import { View, StyleSheet } from 'react-native';
+import { Svg, Circle, Line, Path, Text as SvgText } from 'react-native-svg';
+import { PoseFrame, PoseLandmark } from './AIAnalysisEngine';
+import { POSE_CONNECTIONS } from './JointRoles';
+import { blockSideLandmarks, throwingSideLandmarks, ThrowingHand } from './Handedness';
+import { jointAngle } from './BiomechanicsMetrics';
 
 interface PoseOverlayProps {
   landmarks: PoseLandmark[];
   width: number;
   height: number;
   showSkeleton?: boolean;
+  tint?: string; // draw the whole skeleton in one colour instead of by correctness
+  throwingHand?: ThrowingHand;
+  showAngles?: boolean; // elbow, shoulder and block-knee angle arcs
+  showShoulderLine?: boolean; // horizontal reference at throwing-shoulder height
+  wristTrail?: PoseFrame[]; // previous frames, oldest first; drawn when showWristTrail is set
+  showWristTrail?: boolean;
 }
 
-// MediaPipe Pose landmark indices
-const POSE_CONNECTIONS = [
-  // Face
-  [0, 1], [1, 2], [2, 3], [3, 7],
-  [0, 4], [4, 5], [5, 6], [6, 8],
-  
-  // Torso
-  [9, 10], [11, 12], [11, 13], [13, 15],
-  [15, 17], [15, 19], [15, 21], [17, 19],
-  [12, 14], [14, 16], [16, 18], [16, 20],
-  [16, 22], [18, 20], [11, 23], [12, 24],
-  [23, 24],
-  
-  // Left leg
-  [23, 25], [25, 27], [27, 29], [29, 31],
-  [27, 31],
-  
-  // Right leg
-  [24, 26], [26, 28], [28, 30], [30, 32],
-  [28, 32]
-];
-
-const LANDMARK_NAMES = [
-  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer',
-  'right_eye_inner', 'right_eye', 'right_eye_outer', 'left_ear',
-  'right_ear', 'mouth_left', 'mouth_right', 'left_shoulder',
-  'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist',
-  'right_wrist', 'left_pinky', 'right_pinky', 'left_index',
-  'right_index', 'left_thumb', 'right_thumb', 'left_hip',
-  'right_hip', 'left_knee', 'right_knee', 'left_ankle',
-  'right_ankle', 'left_heel', 'right_heel', 'left_foot_index',
-  'right_foot_index'
-];
+const MIN_VISIBILITY = 0.5;
+const ANGLE_ARC_RADIUS = 18;
+
+/**
+ * Pose frame closest to a playback position. Returns null outside the
+ * analyzed span (by more than half a frame) so no stale skeleton is drawn.
+ */
+export function findPoseFrameAt(poseData: PoseFrame[], positionMillis: number): PoseFrame | null {
+  if (poseData.length === 0) return null;
+
+  const frameInterval = poseData.length > 1
+    ? (poseData[poseData.length - 1].timestamp - poseData[0].timestamp) / (poseData.length - 1)
+    : 0;
+  const tolerance = frameInterval / 2;
+  if (positionMillis < poseData[0].timestamp - tolerance ||
+      positionMillis > poseData[poseData.length - 1].timestamp + tolerance) {
+    return null;
+  }
+
+  // Binary search for the first frame at or after the position
+  let low = 0;
+  let high = poseData.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (poseData[mid].timestamp < positionMillis) low = mid + 1;
+    else high = mid;
+  }
+  const previous = poseData[Math.max(0, low - 1)];
+  const next = poseData[low];
+  return positionMillis - previous.timestamp <= next.timestamp - positionMillis ? previous : next;
+}
 
 export const PoseOverlay: React.FC<PoseOverlayProps> = ({
   landmarks,
   width,
   height,
-  showSkeleton = true
+  showSkeleton = true,
+  tint,
+  throwingHand = 'right',
+  showAngles = false,
+  showShoulderLine = false,
+  wristTrail = [],
+  showWristTrail = false
 }) => {
   if (!landmarks || landmarks.length < 33) {
     return null;
   }
 
   const getJointColor = (landmark: PoseLandmark, index: number): string => {
+    if (tint) return tint;
+
     // Color coding based on correctness
     if (landmark.isCorrect === false) {
       return '#ef4444'; // Red for incorrect joints
@@ -98,7 +113,9 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({
 
       // Color connection based on joint correctness
       let strokeColor = '#64748b';
-      if (startLandmark.isCorrect === false || endLandmark.isCorrect === false) {
+      if (tint) {
+        strokeColor = tint;
+      } else if (startLandmark.isCorrect === false || endLandmark.isCorrect === false) {
         strokeColor = '#ef4444';
       } else if (startLandmark.isCorrect === true && endLandmark.isCorrect === true) {
         strokeColor = '#10b981';
@@ -128,26 +145,123 @@ export const PoseOverlay: React.FC<PoseOverlayProps> = ({
       const radius = getJointRadius(landmark);
       const color = getJointColor(landmark, index);
 
+      // Interpolated joints are drawn hollow so gaps stay visible
       return (
         <Circle
           key={`landmark-${index}`}
           cx={x}
           cy={y}
           r={radius}
-          fill={color}
-          stroke="#ffffff"
-          strokeWidth="1"
+          fill={landmark.interpolated ? 'none' : color}
+          stroke={landmark.interpolated ? color : '#ffffff'}
+          strokeWidth={landmark.interpolated ? '2' : '1'}
           opacity={landmark.visibility}
         />
       );
     });
   };
 
+  // Layers work in pixels so angles are not distorted by the frame's aspect ratio
+  const toPixels = (landmark: PoseLandmark) => ({ x: landmark.x * width, y: landmark.y * height });
+  const throwing = throwingSideLandmarks(throwingHand);
+  const block = blockSideLandmarks(throwingHand);
+
+  const renderShoulderLine = () => {
+    if (!showShoulderLine) return null;
+    const shoulder = landmarks[throwing.shoulder];
+    if (shoulder.visibility < MIN_VISIBILITY) return null;
+
+    const y = shoulder.y * height;
+    return (
+      <>
+        <Line x1={0} y1={y} x2={width} y2={y} stroke="#f59e0b" strokeWidth="1.5" strokeDasharray="6,4" />
+        <SvgText x={4} y={y - 4} fill="#f59e0b" fontSize="10" fontWeight="bold">
+          Shoulder height
+        </SvgText>
+      </>
+    );
+  };
+
+  const renderWristTrail = () => {
+    if (!showWristTrail) return null;
+    const points = [...wristTrail.map(frame => frame.landmarks[throwing.wrist]), landmarks[throwing.wrist]];
+
+    return points.slice(1).map((point, index) => {
+      const previous = points[index];
+      if (!previous || !point || previous.visibility < MIN_VISIBILITY || point.visibility < MIN_VISIBILITY) {
+        return null;
+      }
+      const start = toPixels(previous);
+      const end = toPixels(point);
+      return (
+        <Line
+          key={`trail-${index}`}
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          stroke="#facc15"
+          strokeWidth="3"
+          strokeLinecap="round"
+          strokeOpacity={(index + 1) / (points.length - 1)} // older segments fade out
+        />
+      );
+    });
+  };
+
+  const renderAngleArc = (key: string, [a, b, c]: number[]) => {
+    if ([a, b, c].some(index => landmarks[index].visibility < MIN_VISIBILITY)) return null;
+
+    const [start, vertex, end] = [a, b, c].map(index => toPixels(landmarks[index]));
+    const unit = (point: { x: number; y: number }) => {
+      const length = Math.hypot(point.x - vertex.x, point.y - vertex.y) || 1;
+      return { x: (point.x - vertex.x) / length, y: (point.y - vertex.y) / length };
+    };
+    const from = unit(start);
+    const to = unit(end);
+    const sweep = from.x * to.y - from.y * to.x > 0 ? 1 : 0;
+    const arc = `M ${vertex.x + from.x * ANGLE_ARC_RADIUS} ${vertex.y + from.y * ANGLE_ARC_RADIUS} ` +
+      `A ${ANGLE_ARC_RADIUS} ${ANGLE_ARC_RADIUS} 0 0 ${sweep} ` +
+      `${vertex.x + to.x * ANGLE_ARC_RADIUS} ${vertex.y + to.y * ANGLE_ARC_RADIUS}`;
+
+    // Label sits on the bisector, just outside the arc
+    const bisector = unit({ x: vertex.x + from.x + to.x, y: vertex.y + from.y + to.y });
+    const labelRadius = ANGLE_ARC_RADIUS + 12;
+
+    return (
+      <React.Fragment key={`angle-${key}`}>
+        <Path d={arc} stroke="#ffffff" strokeWidth="2" fill="none" />
+        <SvgText
+          x={vertex.x + bisector.x * labelRadius}
+          y={vertex.y + bisector.y * labelRadius + 4}
+          fill="#ffffff"
+          fontSize="11"
+          fontWeight="bold"
+          textAnchor="middle"
+        >
+          {`${Math.round(jointAngle(start, vertex, end))}°`}
+        </SvgText>
+      </React.Fragment>
+    );
+  };
+
+  const renderAngles = () => {
+    if (!showAngles) return null;
+    return [
+      renderAngleArc('elbow', [throwing.shoulder, throwing.elbow, throwing.wrist]),
+      renderAngleArc('shoulder', [throwing.elbow, throwing.shoulder, throwing.hip]),
+      renderAngleArc('knee', [block.hip, block.knee, block.ankle])
+    ];
+  };
+
   return (
     <View style={[styles.container, { width, height }]} pointerEvents="none">
       <Svg width={width} height={height} style={styles.svg}>
+        {renderShoulderLine()}
+        {renderWristTrail()}
         {renderConnections()}
         {renderLandmarks()}
+        {renderAngles()}
       </Svg>
     </View>
   );
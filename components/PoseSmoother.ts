@@ -0,0 +1,180 @@
+/**
+ * Temporal filtering of pose sequences
+ * Fills short occlusion gaps by interpolation, smooths jitter with a One Euro
+ * filter and flags frames that are too unreliable to analyze.
+ */
+
+import { PoseFrame, PoseLandmark } from './AIAnalysisEngine';
+import { landmarkIndex } from './JointRoles';
+
+export interface PoseFilterOptions {
+  minVisibility: number; // landmarks below this count as missing
+  maxGapMs: number; // longest occlusion that is interpolated
+  minCutoff: number; // One Euro minimum cutoff frequency (Hz)
+  beta: number; // One Euro speed coefficient, per normalized unit per second
+  derivativeCutoff: number; // One Euro derivative cutoff frequency (Hz)
+  minReliableJointRatio: number; // share of key joints that must be visible
+}
+
+// Coordinates are normalized to the image, so a release-speed wrist moves a
+// few units per second; beta is sized for that rather than for pixels
+export const DEFAULT_POSE_FILTER_OPTIONS: PoseFilterOptions = {
+  minVisibility: 0.5,
+  maxGapMs: 250,
+  minCutoff: 1.7,
+  beta: 20,
+  derivativeCutoff: 1.0,
+  minReliableJointRatio: 0.75
+};
+
+// Joints the analysis depends on; face and hand points are not counted
+const KEY_JOINTS = ([
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+] as const).map(landmarkIndex);
+
+/**
+ * One Euro filter (Casiez et al., 2012): low lag during fast motion such as
+ * the release, strong smoothing when the joint is nearly still
+ */
+export class OneEuroFilter {
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTimestamp: number | null = null;
+
+  constructor(
+    private readonly minCutoff: number,
+    private readonly beta: number,
+    private readonly derivativeCutoff: number
+  ) {}
+
+  private static alpha(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  filter(value: number, timestampMs: number): number {
+    if (this.previousValue === null || this.previousTimestamp === null || timestampMs <= this.previousTimestamp) {
+      this.previousValue = value;
+      this.previousTimestamp = timestampMs;
+      return value;
+    }
+
+    const dt = (timestampMs - this.previousTimestamp) / 1000;
+    const derivative = (value - this.previousValue) / dt;
+    const derivativeAlpha = OneEuroFilter.alpha(this.derivativeCutoff, dt);
+    const smoothedDerivative = derivativeAlpha * derivative + (1 - derivativeAlpha) * this.previousDerivative;
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(smoothedDerivative);
+    const valueAlpha = OneEuroFilter.alpha(cutoff, dt);
+    const smoothed = valueAlpha * value + (1 - valueAlpha) * this.previousValue;
+
+    this.previousValue = smoothed;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTimestamp = timestampMs;
+    return smoothed;
+  }
+}
+
+/**
+ * Linearly interpolate landmarks that drop below minVisibility for at most
+ * maxGapMs between two visible observations. Gaps at the ends are left alone.
+ */
+export function fillPoseGaps(
+  poseSequence: PoseFrame[],
+  options: PoseFilterOptions = DEFAULT_POSE_FILTER_OPTIONS
+): PoseFrame[] {
+  const filled = poseSequence.map(frame => ({
+    ...frame,
+    landmarks: frame.landmarks.map(landmark => ({ ...landmark }))
+  }));
+  const landmarkCount = filled[0]?.landmarks.length ?? 0;
+
+  for (let joint = 0; joint < landmarkCount; joint++) {
+    let lastVisible = -1;
+    for (let i = 0; i < filled.length; i++) {
+      if (filled[i].landmarks[joint].visibility < options.minVisibility) continue;
+
+      const gap = i - lastVisible - 1;
+      if (lastVisible >= 0 && gap > 0) {
+        const before = filled[lastVisible];
+        const after = filled[i];
+        if (after.timestamp - before.timestamp <= options.maxGapMs) {
+          const start = before.landmarks[joint];
+          const end = after.landmarks[joint];
+          for (let k = lastVisible + 1; k < i; k++) {
+            const t = (filled[k].timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+            const interpolate = (a: number, b: number) => a + (b - a) * t;
+            filled[k].landmarks[joint] = {
+              ...filled[k].landmarks[joint],
+              x: interpolate(start.x, end.x),
+              y: interpolate(start.y, end.y),
+              z: start.z !== undefined && end.z !== undefined ? interpolate(start.z, end.z) : undefined,
+              visibility: Math.min(start.visibility, end.visibility, options.minVisibility),
+              interpolated: true
+            };
+          }
+        }
+      }
+      lastVisible = i;
+    }
+  }
+
+  return filled;
+}
+
+/**
+ * Smooth every landmark coordinate over time with a One Euro filter.
+ * Low-visibility samples that were not interpolated are passed through
+ * untouched and restart the joint's filter, so a guessed position neither
+ * drags the smoothed track nor leaves stale state behind.
+ */
+export function smoothPoseSequence(
+  poseSequence: PoseFrame[],
+  options: PoseFilterOptions = DEFAULT_POSE_FILTER_OPTIONS
+): PoseFrame[] {
+  const filters = new Map<string, OneEuroFilter>();
+  const filterFor = (key: string) => {
+    let filter = filters.get(key);
+    if (!filter) {
+      filter = new OneEuroFilter(options.minCutoff, options.beta, options.derivativeCutoff);
+      filters.set(key, filter);
+    }
+    return filter;
+  };
+
+  return poseSequence.map(frame => ({
+    ...frame,
+    landmarks: frame.landmarks.map((landmark, joint): PoseLandmark => {
+      if (landmark.visibility < options.minVisibility && !landmark.interpolated) {
+        ['x', 'y', 'z'].forEach(axis => filters.delete(`${joint}.${axis}`));
+        return { ...landmark };
+      }
+      return {
+        ...landmark,
+        x: filterFor(`${joint}.x`).filter(landmark.x, frame.timestamp),
+        y: filterFor(`${joint}.y`).filter(landmark.y, frame.timestamp),
+        z: landmark.z !== undefined ? filterFor(`${joint}.z`).filter(landmark.z, frame.timestamp) : undefined
+      };
+    })
+  }));
+}
+
+/**
+ * Full filter stage: gap filling, smoothing and reliability flags
+ */
+export function filterPoseSequence(
+  poseSequence: PoseFrame[],
+  overrides: Partial<PoseFilterOptions> = {}
+): PoseFrame[] {
+  const options = { ...DEFAULT_POSE_FILTER_OPTIONS, ...overrides };
+  const smoothed = smoothPoseSequence(fillPoseGaps(poseSequence, options), options);
+
+  return smoothed.map(frame => {
+    const visibleJoints = KEY_JOINTS.filter(
+      joint => (frame.landmarks[joint]?.visibility ?? 0) >= options.minVisibility
+    ).length;
+    return { ...frame, unreliable: visibleJoints / KEY_JOINTS.length < options.minReliableJointRatio };
+  });
+}
@@ -0,0 +1,173 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Svg, Rect, Line, Polyline, Circle, Text as SvgText } from 'react-native-svg';
+
+const AXIS_COLOR = '#cbd5e0';
+const LABEL_COLOR = '#64748b';
+const LABEL_HEIGHT = 16;
+
+interface ChartSize {
+  width: number;
+  height: number;
+}
+
+interface StackedBar {
+  key: string;
+  segments: { value: number; color: string }[]; // values sum to 1
+}
+
+interface StackedBarChartProps extends ChartSize {
+  bars: StackedBar[];
+}
+
+/**
+ * One bar per item, each split into coloured shares of 100%
+ */
+export const StackedBarChart: React.FC<StackedBarChartProps> = ({ bars, width, height }) => {
+  if (bars.length === 0) return <EmptyChart width={width} height={height} />;
+
+  const slot = width / bars.length;
+  const barWidth = Math.max(2, Math.min(24, slot * 0.7));
+
+  return (
+    <Svg width={width} height={height}>
+      {bars.map((bar, index) => {
+        const x = index * slot + (slot - barWidth) / 2;
+        let y = height;
+        return bar.segments.map((segment, segmentIndex) => {
+          const segmentHeight = segment.value * height;
+          y -= segmentHeight;
+          return (
+            <Rect
+              key={`${bar.key}-${segmentIndex}`}
+              x={x}
+              y={y}
+              width={barWidth}
+              height={segmentHeight}
+              fill={segment.color}
+            />
+          );
+        });
+      })}
+      <Line x1={0} y1={height - 0.5} x2={width} y2={height - 0.5} stroke={AXIS_COLOR} strokeWidth="1" />
+    </Svg>
+  );
+};
+
+interface LabeledBar {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface BarChartProps extends ChartSize {
+  bars: LabeledBar[];
+  maxValue: number;
+  color: string;
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Vertical bars with the value above and the label below each bar
+ */
+export const BarChart: React.FC<BarChartProps> = ({ bars, width, height, maxValue, color, formatValue }) => {
+  if (bars.length === 0) return <EmptyChart width={width} height={height} />;
+
+  const plotHeight = height - LABEL_HEIGHT * 2;
+  const slot = width / bars.length;
+  const barWidth = Math.max(4, Math.min(32, slot * 0.6));
+  const showLabels = slot >= 28; // skip labels rather than overlap them
+
+  return (
+    <Svg width={width} height={height}>
+      {bars.map((bar, index) => {
+        const barHeight = maxValue > 0 ? (Math.min(bar.value, maxValue) / maxValue) * plotHeight : 0;
+        const centerX = index * slot + slot / 2;
+        const top = LABEL_HEIGHT + plotHeight - barHeight;
+        return (
+          <React.Fragment key={bar.key}>
+            <Rect x={centerX - barWidth / 2} y={top} width={barWidth} height={barHeight} rx={3} fill={color} />
+            {showLabels && (
+              <>
+                <SvgText x={centerX} y={top - 4} fill="#1a202c" fontSize="10" textAnchor="middle">
+                  {formatValue(bar.value)}
+                </SvgText>
+                <SvgText x={centerX} y={height - 4} fill={LABEL_COLOR} fontSize="10" textAnchor="middle">
+                  {bar.label}
+                </SvgText>
+              </>
+            )}
+          </React.Fragment>
+        );
+      })}
+      <Line
+        x1={0}
+        y1={LABEL_HEIGHT + plotHeight + 0.5}
+        x2={width}
+        y2={LABEL_HEIGHT + plotHeight + 0.5}
+        stroke={AXIS_COLOR}
+        strokeWidth="1"
+      />
+    </Svg>
+  );
+};
+
+interface LineChartProps extends ChartSize {
+  points: { x: number; y: number }[]; // x is a timestamp
+  color: string;
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Time series with the min and max values marked on the left
+ */
+export const LineChart: React.FC<LineChartProps> = ({ points, width, height, color, formatValue }) => {
+  if (points.length === 0) return <EmptyChart width={width} height={height} />;
+
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const minY = Math.min(...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y));
+  const padding = 6;
+  const plotLeft = 44;
+  const plotWidth = width - plotLeft - padding;
+  const plotHeight = height - padding * 2;
+
+  const toX = (x: number) => plotLeft + (maxX > minX ? ((x - minX) / (maxX - minX)) * plotWidth : plotWidth / 2);
+  const toY = (y: number) => padding + (maxY > minY ? (1 - (y - minY) / (maxY - minY)) * plotHeight : plotHeight / 2);
+  const coordinates = points.map(point => `${toX(point.x)},${toY(point.y)}`).join(' ');
+
+  return (
+    <Svg width={width} height={height}>
+      <Line x1={plotLeft} y1={padding} x2={plotLeft} y2={height - padding} stroke={AXIS_COLOR} strokeWidth="1" />
+      <SvgText x={plotLeft - 4} y={padding + 8} fill={LABEL_COLOR} fontSize="10" textAnchor="end">
+        {formatValue(maxY)}
+      </SvgText>
+      <SvgText x={plotLeft - 4} y={height - padding} fill={LABEL_COLOR} fontSize="10" textAnchor="end">
+        {formatValue(minY)}
+      </SvgText>
+      <Polyline points={coordinates} fill="none" stroke={color} strokeWidth="2" />
+      {points.map((point, index) => (
+        <Circle key={index} cx={toX(point.x)} cy={toY(point.y)} r={3} fill={color} />
+      ))}
+    </Svg>
+  );
+};
+
+const EmptyChart: React.FC<ChartSize> = ({ width, height }) => (
+  <View style={[styles.empty, { width, height }]}>
+    <Text style={styles.emptyText}>No data for this filter</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  empty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: LABEL_COLOR,
+  },
+});
@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, StyleProp, ViewStyle } from 'react-native';
+import { router } from 'expo-router';
+import { PlayCircle, StopCircle } from 'lucide-react-native';
+import { useTrainingSession } from '@/hooks/useTrainingSession';
+
+interface SessionControlProps {
+  style?: StyleProp<ViewStyle>;
+  disabled?: boolean;
+}
+
+/**
+ * Start or end a training session. Ending one opens its summary.
+ */
+export const SessionControl: React.FC<SessionControlProps> = ({ style, disabled = false }) => {
+  const { activeSession, throwCount, start, end } = useTrainingSession();
+
+  const confirmEnd = () => {
+    if (!activeSession) return;
+    Alert.alert(
+      'End session',
+      `End "${activeSession.name}" and view the summary?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'End session',
+          onPress: async () => {
+            const ended = await end();
+            if (ended) router.push({ pathname: '/session', params: { sessionId: ended.id } });
+          },
+        },
+      ]
+    );
+  };
+
+  if (!activeSession) {
+    return (
+      <TouchableOpacity style={[styles.pill, style]} onPress={() => start()} disabled={disabled}>
+        <PlayCircle size={16} color="#ffffff" />
+        <Text style={styles.pillText}>Start session</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={[styles.pill, styles.activePill, style]}>
+      <View style={styles.liveDot} />
+      <Text style={styles.pillText} numberOfLines={1}>
+        {`${activeSession.name} · ${throwCount} ${throwCount === 1 ? 'throw' : 'throws'}`}
+      </Text>
+      <TouchableOpacity style={styles.endButton} onPress={confirmEnd} disabled={disabled}>
+        <StopCircle size={16} color="#ffffff" />
+        <Text style={styles.endText}>End</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default SessionControl;
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    maxWidth: 300,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  activePill: {
+    paddingRight: 6,
+    paddingVertical: 4,
+  },
+  pillText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#ffffff',
+    marginHorizontal: 6,
+    flexShrink: 1,
+  },
+  liveDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#10b981',
+  },
+  endButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#dc2626',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  endText: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+    marginLeft: 4,
+  },
+});
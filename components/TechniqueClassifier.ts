@@ -0,0 +1,150 @@
+/**
+ * Technique classification models
+ * A model maps a window of pose frames to probabilities for the four
+ * technique classes.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-react-native';
+import { PoseFrame, TechniquePrediction } from './AIAnalysisEngine';
+import { POSE_LANDMARK_COUNT } from './PoseBackend';
+import { landmarkIndex } from './JointRoles';
+import { TECHNIQUE_MODEL_PATH } from '@/src/config';
+import { isModelCached, loadCachedGraphModel, ModelSource } from './ModelCache';
+import { serverHeaders, serverUrl } from '@/src/apiClient';
+import { getActiveServerProfile } from '@/src/serverStore';
+
+/** Output order of every TechniqueModel */
+export const TECHNIQUE_CLASSES: TechniquePrediction[] = [
+  'Good Technique',
+  'Low Arm',
+  'Poor Left Leg Block',
+  'Both Errors'
+];
+
+export interface TechniqueModel {
+  load(): Promise<void>;
+  /** Probabilities in TECHNIQUE_CLASSES order, summing to 1 */
+  predict(window: PoseFrame[]): Promise<number[]>;
+  /** Whether load() works without a network connection; assumed when absent */
+  isAvailableOffline?(): Promise<boolean>;
+  dispose(): void;
+}
+
+export const FEATURES_PER_LANDMARK = 4; // x, y, z, visibility
+
+const LEFT_SHOULDER = landmarkIndex('left_shoulder');
+const RIGHT_SHOULDER = landmarkIndex('right_shoulder');
+const LEFT_HIP = landmarkIndex('left_hip');
+const RIGHT_HIP = landmarkIndex('right_hip');
+
+/**
+ * Encode a pose window as [frames][33 * 4] features. Positions are centred on
+ * the mid-hip and scaled by torso length so camera distance and the athlete's
+ * place on the runway do not matter.
+ */
+export function encodePoseWindow(window: PoseFrame[]): number[][] {
+  return window.map(({ landmarks }) => {
+    const hipX = (landmarks[LEFT_HIP].x + landmarks[RIGHT_HIP].x) / 2;
+    const hipY = (landmarks[LEFT_HIP].y + landmarks[RIGHT_HIP].y) / 2;
+    const shoulderX = (landmarks[LEFT_SHOULDER].x + landmarks[RIGHT_SHOULDER].x) / 2;
+    const shoulderY = (landmarks[LEFT_SHOULDER].y + landmarks[RIGHT_SHOULDER].y) / 2;
+    const torso = Math.hypot(shoulderX - hipX, shoulderY - hipY) || 1;
+
+    const features: number[] = [];
+    for (let i = 0; i < POSE_LANDMARK_COUNT; i++) {
+      const landmark = landmarks[i];
+      features.push(
+        (landmark.x - hipX) / torso,
+        (landmark.y - hipY) / torso,
+        (landmark.z ?? 0) / torso,
+        landmark.visibility
+      );
+    }
+    return features;
+  });
+}
+
+const normalize = (values: number[]): number[] => {
+  const sum = values.reduce((total, value) => total + value, 0);
+  const isDistribution = values.every(value => value >= 0) && Math.abs(sum - 1) < 1e-3;
+  if (isDistribution) return values;
+
+  // Raw logits: apply softmax
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const total = exps.reduce((acc, value) => acc + value, 0);
+  return exps.map(value => value / total);
+};
+
+export class TfjsTechniqueModel implements TechniqueModel {
+  private model: tf.GraphModel | null = null;
+  private loadedFrom: string | null = null;
+
+  /** Without a URL the model is fetched from the active analysis server */
+  constructor(private readonly modelUrl: string | null = null) {}
+
+  /** Reloads when the active server profile changed since the last load */
+  async load(): Promise<void> {
+    const source = await this.resolveSource();
+    if (this.model && this.loadedFrom === source.url) return;
+    this.dispose();
+    await tf.ready();
+    this.model = await loadCachedGraphModel(source);
+    this.loadedFrom = source.url;
+  }
+
+  async isAvailableOffline(): Promise<boolean> {
+    return isModelCached(await this.resolveSource());
+  }
+
+  private async resolveSource(): Promise<ModelSource> {
+    if (this.modelUrl) return { url: this.modelUrl, headers: {} };
+    const profile = await getActiveServerProfile();
+    return { url: serverUrl(profile, TECHNIQUE_MODEL_PATH), headers: serverHeaders(profile) };
+  }
+
+  async predict(window: PoseFrame[]): Promise<number[]> {
+    if (!this.model) {
+      throw new Error('Technique model not loaded');
+    }
+
+    const input = tf.tensor3d([encodePoseWindow(window)]);
+    const output = this.model.predict(input) as tf.Tensor;
+    try {
+      const values = Array.from(await output.data());
+      if (values.length !== TECHNIQUE_CLASSES.length) {
+        throw new Error(`Expected ${TECHNIQUE_CLASSES.length} class scores, got ${values.length}`);
+      }
+      return normalize(values);
+    } finally {
+      input.dispose();
+      output.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.model?.dispose();
+    this.model = null;
+    this.loadedFrom = null;
+  }
+}
+
+/**
+ * Deterministic model for unit tests; always returns the given probabilities
+ */
+export class FixtureTechniqueModel implements TechniqueModel {
+  constructor(private readonly probabilities: number[] = [0.7, 0.1, 0.1, 0.1]) {
+    if (probabilities.length !== TECHNIQUE_CLASSES.length) {
+      throw new Error(`FixtureTechniqueModel needs ${TECHNIQUE_CLASSES.length} probabilities`);
+    }
+  }
+
+  async load(): Promise<void> {}
+
+  async predict(_window: PoseFrame[]): Promise<number[]> {
+    return normalize(this.probabilities);
+  }
+
+  dispose(): void {}
+}
@@ -0,0 +1,91 @@
+/**
+ * BlazePose landmark backend running on TF.js (rn-webgl on device)
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-react-native';
+import { PoseLandmark } from './AIAnalysisEngine';
+import { PoseBackend, POSE_LANDMARK_COUNT } from './PoseBackend';
+import { isModelCached, loadCachedGraphModel, ModelSource } from './ModelCache';
+import { POSE_LANDMARK_MODEL_URL } from '@/src/config';
+
+const INPUT_SIZE = 256;
+// ld_3d holds 39 points (33 landmarks + 6 auxiliary) of [x, y, z, visibility, presence]
+const VALUES_PER_POINT = 5;
+const POSE_PRESENCE_THRESHOLD = 0.5;
+
+const sigmoid = (value: number): number => 1 / (1 + Math.exp(-value));
+
+export class TfjsPoseBackend implements PoseBackend {
+  readonly inputSize = INPUT_SIZE;
+  private model: tf.GraphModel | null = null;
+
+  constructor(private readonly modelUrl: string = POSE_LANDMARK_MODEL_URL) {}
+
+  async load(): Promise<void> {
+    if (this.model) return;
+    await tf.ready();
+    console.log(`Loading BlazePose landmark model on ${tf.getBackend()} backend...`);
+    this.model = await loadCachedGraphModel(this.source());
+  }
+
+  isAvailableOffline(): Promise<boolean> {
+    return isModelCached(this.source());
+  }
+
+  private source(): ModelSource {
+    return { url: this.modelUrl, fromTFHub: this.modelUrl.includes('tfhub.dev') };
+  }
+
+  async estimate(image: tf.Tensor3D): Promise<PoseLandmark[]> {
+    if (!this.model) {
+      throw new Error('Pose model not loaded');
+    }
+
+    // Letterbox to a square so the model sees the athlete undistorted
+    const [height, width] = image.shape;
+    const side = Math.max(height, width);
+    const padTop = Math.floor((side - height) / 2);
+    const padLeft = Math.floor((side - width) / 2);
+
+    const input = tf.tidy(() => {
+      const padded = tf.pad(image, [
+        [padTop, side - height - padTop],
+        [padLeft, side - width - padLeft],
+        [0, 0]
+      ]);
+      return tf.image
+        .resizeBilinear(padded as tf.Tensor3D, [INPUT_SIZE, INPUT_SIZE])
+        .toFloat()
+        .div(255)
+        .expandDims(0);
+    });
+
+    const outputs = this.model.execute(input, ['ld_3d', 'output_poseflag']) as tf.Tensor[];
+    try {
+      const [values, poseFlag] = await Promise.all(outputs.map(output => output.data()));
+      if (poseFlag[0] < POSE_PRESENCE_THRESHOLD) {
+        return [];
+      }
+
+      const scale = side / INPUT_SIZE;
+      return Array.from({ length: POSE_LANDMARK_COUNT }, (_, index) => {
+        const offset = index * VALUES_PER_POINT;
+        return {
+          x: (values[offset] * scale - padLeft) / width,
+          y: (values[offset + 1] * scale - padTop) / height,
+          z: (values[offset + 2] * scale) / width,
+          visibility: sigmoid(values[offset + 3])
+        };
+      });
+    } finally {
+      input.dispose();
+      outputs.forEach(output => output.dispose());
+    }
+  }
+
+  dispose(): void {
+    this.model?.dispose();
+    this.model = null;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Video frame sampling for the on-device pipeline
+ * Reads the clip's real frame rate and duration from its container and
+ * grabs frames at a configurable target FPS as JPEG files.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { parseMp4Metadata, VideoMetadata } from './Mp4Metadata';
+
+export interface VideoFrame {
+  frame: number; // index of the frame in the source video
+  timestamp: number; // milliseconds from the start of the clip
+  uri: string; // JPEG on disk
+  width: number;
+  height: number;
+}
+
+export interface FrameSamplingOptions {
+  targetFps: number;
+  maxFrames?: number;
+}
+
+export interface VideoFrameSource {
+  readMetadata(videoUri: string): Promise<VideoMetadata>;
+  extractFrames(
+    videoUri: string,
+    metadata: VideoMetadata,
+    options: FrameSamplingOptions
+  ): Promise<VideoFrame[]>;
+  /** Delete any files created by extractFrames */
+  releaseFrames(frames: VideoFrame[]): Promise<void>;
+}
+
+export interface FrameSample {
+  frame: number;
+  timestamp: number;
+}
+
+/**
+ * Choose which source frames to sample. The sampling rate never exceeds the
+ * clip's own frame rate, and timestamps are snapped to real frame times so
+ * they line up with the video during playback.
+ */
+export function planFrameSamples(metadata: VideoMetadata, options: FrameSamplingOptions): FrameSample[] {
+  const { durationMs, frameRate, frameCount } = metadata;
+  if (durationMs <= 0 || frameRate <= 0 || options.targetFps <= 0) return [];
+
+  let sampleFps = Math.min(options.targetFps, frameRate);
+  if (options.maxFrames) {
+    sampleFps = Math.min(sampleFps, options.maxFrames / (durationMs / 1000));
+  }
+
+  const samples: FrameSample[] = [];
+  const step = 1000 / sampleFps;
+  for (let time = 0; time < durationMs; time += step) {
+    const frame = Math.min(Math.round((time * frameRate) / 1000), frameCount - 1);
+    if (samples.length > 0 && samples[samples.length - 1].frame === frame) continue;
+    samples.push({ frame, timestamp: (frame * 1000) / frameRate });
+  }
+  return samples;
+}
+
+const base64ToBytes = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/**
+ * Frame source backed by expo-video-thumbnails; works on local file URIs
+ */
+export class ThumbnailFrameSource implements VideoFrameSource {
+  constructor(private readonly quality = 0.8) {}
+
+  async readMetadata(videoUri: string): Promise<VideoMetadata> {
+    const info = await FileSystem.getInfoAsync(videoUri);
+    if (!info.exists || info.isDirectory) {
+      throw new Error(`Video file not found: ${videoUri}`);
+    }
+
+    const read = async (position: number, length: number) =>
+      base64ToBytes(
+        await FileSystem.readAsStringAsync(videoUri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position,
+          length
+        })
+      );
+    return parseMp4Metadata(read, info.size);
+  }
+
+  async extractFrames(
+    videoUri: string,
+    metadata: VideoMetadata,
+    options: FrameSamplingOptions
+  ): Promise<VideoFrame[]> {
+    const frames: VideoFrame[] = [];
+    try {
+      for (const sample of planFrameSamples(metadata, options)) {
+        const thumbnail = await VideoThumbnails.getThumbnailAsync(videoUri, {
+          time: Math.round(sample.timestamp),
+          quality: this.quality
+        });
+        frames.push({ ...sample, ...thumbnail });
+      }
+      return frames;
+    } catch (error) {
+      await this.releaseFrames(frames);
+      throw error;
+    }
+  }
+
+  async releaseFrames(frames: VideoFrame[]): Promise<void> {
+    await Promise.all(
+      frames.map(frame =>
+        FileSystem.deleteAsync(frame.uri, { idempotent: true }).catch(error =>
+          console.warn('Frame cleanup error:', error)
+        )
+      )
+    );
+  }
+}
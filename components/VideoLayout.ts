@@ -0,0 +1,21 @@
+/**
+ * Geometry of video content inside a view
+ */
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ContentRect extends Size {
+  left: number;
+  top: number;
+}
+
+/** Where the video content sits inside its view with ResizeMode.CONTAIN */
+export const getContentRect = (view: Size, video: Size): ContentRect => {
+  const scale = Math.min(view.width / video.width, view.height / video.height);
+  const width = video.width * scale;
+  const height = video.height * scale;
+  return { left: (view.width - width) / 2, top: (view.height - height) / 2, width, height };
+};
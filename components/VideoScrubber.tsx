@@ -0,0 +1,179 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { PhaseBoundary, PHASE_LABELS, ThrowPhase } from './PhaseSegmenter';
+
+export const PHASE_COLORS: Record<ThrowPhase, string> = {
+  approach: '#64748b',
+  crossover: '#3b82f6',
+  block: '#8b5cf6',
+  release: '#f59e0b',
+  followThrough: '#10b981'
+};
+
+interface VideoScrubberProps {
+  durationMillis: number;
+  positionMillis: number;
+  phases?: PhaseBoundary[];
+  releaseTimestamp?: number;
+  onSeek: (positionMillis: number) => void;
+  onScrubStart?: () => void;
+  onScrubEnd?: () => void;
+}
+
+const formatTime = (millis: number) => {
+  const seconds = Math.max(0, millis) / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+};
+
+/**
+ * Timeline with phase bands and a release marker; drag anywhere on the
+ * track to seek
+ */
+export const VideoScrubber: React.FC<VideoScrubberProps> = ({
+  durationMillis,
+  positionMillis,
+  phases = [],
+  releaseTimestamp,
+  onSeek,
+  onScrubStart,
+  onScrubEnd
+}) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const grantX = useRef(0);
+
+  // Handlers are created once, so read the latest props through a ref
+  const latest = useRef({ trackWidth, durationMillis, onSeek, onScrubStart, onScrubEnd });
+  latest.current = { trackWidth, durationMillis, onSeek, onScrubStart, onScrubEnd };
+
+  const panResponder = useMemo(() => {
+    const seekTo = (x: number) => {
+      const { trackWidth: width, durationMillis: duration } = latest.current;
+      if (width <= 0 || duration <= 0) return;
+      const ratio = Math.min(1, Math.max(0, x / width));
+      latest.current.onSeek(ratio * duration);
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        grantX.current = event.nativeEvent.locationX;
+        latest.current.onScrubStart?.();
+        seekTo(grantX.current);
+      },
+      onPanResponderMove: (_, gesture) => seekTo(grantX.current + gesture.dx),
+      onPanResponderRelease: () => latest.current.onScrubEnd?.(),
+      onPanResponderTerminate: () => latest.current.onScrubEnd?.()
+    });
+  }, []);
+
+  const toX = (millis: number) =>
+    durationMillis > 0 ? Math.min(1, Math.max(0, millis / durationMillis)) * trackWidth : 0;
+
+  const currentPhase = phases.find(
+    boundary => positionMillis >= boundary.startTime && positionMillis <= boundary.endTime
+  );
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.touchArea}
+        onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+        {...panResponder.panHandlers}
+      >
+        <View style={styles.track} pointerEvents="none">
+          {phases.map(boundary => (
+            <View
+              key={boundary.phase}
+              style={[
+                styles.phaseBand,
+                {
+                  left: toX(boundary.startTime),
+                  width: Math.max(2, toX(boundary.endTime) - toX(boundary.startTime)),
+                  backgroundColor: PHASE_COLORS[boundary.phase]
+                }
+              ]}
+            />
+          ))}
+          <View style={[styles.playedFill, { width: toX(positionMillis) }]} />
+        </View>
+        {releaseTimestamp !== undefined && (
+          <View style={[styles.releaseMarker, { left: toX(releaseTimestamp) - 1 }]} pointerEvents="none" />
+        )}
+        <View style={[styles.thumb, { left: toX(positionMillis) - 8 }]} pointerEvents="none" />
+      </View>
+
+      <View style={styles.labels}>
+        <Text style={styles.timeText}>{formatTime(positionMillis)}</Text>
+        {currentPhase && (
+          <Text style={[styles.phaseText, { color: PHASE_COLORS[currentPhase.phase] }]}>
+            {PHASE_LABELS[currentPhase.phase]}
+          </Text>
+        )}
+        <Text style={styles.timeText}>{formatTime(durationMillis)}</Text>
+      </View>
+    </View>
+  );
+};
+
+export default VideoScrubber;
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  touchArea: {
+    height: 32,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    overflow: 'hidden',
+  },
+  phaseBand: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    opacity: 0.7,
+  },
+  playedFill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: 'rgba(255,255,255,0.35)',
+  },
+  releaseMarker: {
+    position: 'absolute',
+    top: 4,
+    bottom: 4,
+    width: 2,
+    backgroundColor: '#f59e0b',
+  },
+  thumb: {
+    position: 'absolute',
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    borderWidth: 2,
+    borderColor: '#3182ce',
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  timeText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: 'rgba(255,255,255,0.8)',
+  },
+  phaseText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { Athlete, getActiveAthlete, loadAthletes, setActiveAthleteId } from '@/src/athleteStore';
+
+/**
+ * Athlete profiles and the active athlete, reloaded whenever the screen gains focus
+ */
+export function useAthletes() {
+  const [athletes, setAthletes] = useState<Athlete[]>([]);
+  const [activeAthlete, setActiveAthlete] = useState<Athlete | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [all, active] = await Promise.all([loadAthletes(), getActiveAthlete()]);
+    setAthletes(all);
+    setActiveAthlete(active);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const selectAthlete = useCallback(async (athlete: Athlete | null) => {
+    await setActiveAthleteId(athlete?.id ?? null);
+    setActiveAthlete(athlete);
+  }, []);
+
+  return { athletes, activeAthlete, selectAthlete, refresh };
+}
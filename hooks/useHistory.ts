@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { deleteHistoryEntry, HistoryEntry, loadHistory } from '@/src/historyStore';
+
+/**
+ * Throw history, reloaded whenever the screen gains focus
+ */
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await loadHistory());
+    } catch (error) {
+      // Keep what is shown; an empty list would look like a lost history
+      console.warn('Failed to load throw history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const remove = useCallback(async (id: string) => {
+    await deleteHistoryEntry(id);
+    setEntries(current => current.filter(entry => entry.id !== id));
+  }, []);
+
+  return { entries, isLoading, refresh, remove };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import {
+  getActiveServerProfile, loadServerProfiles, ServerProfile, setActiveServerProfileId
+} from '@/src/serverStore';
+
+/**
+ * Server profiles and the active profile, reloaded whenever the screen gains focus
+ */
+export function useServerProfiles() {
+  const [profiles, setProfiles] = useState<ServerProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<ServerProfile | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [all, active] = await Promise.all([loadServerProfiles(), getActiveServerProfile()]);
+    setProfiles(all);
+    setActiveProfile(active);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const selectProfile = useCallback(async (profile: ServerProfile) => {
+    await setActiveServerProfileId(profile.id);
+    setActiveProfile(profile);
+  }, []);
+
+  return { profiles, activeProfile, selectProfile, refresh };
+}
@@ -0,0 +1,29 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, updateSettings } from '@/src/settingsStore';
+
+/**
+ * Persisted app settings, reloaded whenever the screen gains focus
+ */
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setSettings(await loadSettings());
+    setIsLoading(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const update = useCallback(async (changes: Partial<AppSettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+    setSettings(await updateSettings(changes));
+  }, []);
+
+  return { settings, isLoading, update, refresh };
+}
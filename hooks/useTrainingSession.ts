@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { endSession, getActiveSession, startSession, TrainingSession } from '@/src/sessionStore';
+import { loadHistory } from '@/src/historyStore';
+
+/**
+ * The running training session and its throw count, reloaded whenever the
+ * screen gains focus
+ */
+export function useTrainingSession() {
+  const [activeSession, setActiveSession] = useState<TrainingSession | null>(null);
+  const [throwCount, setThrowCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    const session = await getActiveSession();
+    setActiveSession(session);
+    try {
+      setThrowCount(session ? (await loadHistory()).filter(entry => entry.sessionId === session.id).length : 0);
+    } catch (error) {
+      console.warn('Failed to count session throws:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const start = useCallback(async (name?: string) => {
+    const session = await startSession(name);
+    setActiveSession(session);
+    setThrowCount(0);
+    return session;
+  }, []);
+
+  const end = useCallback(async () => {
+    if (!activeSession) return null;
+    const ended = await endSession(activeSession.id);
+    setActiveSession(null);
+    setThrowCount(0);
+    return ended;
+  }, [activeSession]);
+
+  return { activeSession, throwCount, start, end, refresh };
+}
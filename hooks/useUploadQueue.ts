@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { uploadQueue, UploadJob } from '@/src/uploadQueue';
+
+/**
+ * Live view of the upload queue
+ */
+export function useUploadQueue() {
+  const [jobs, setJobs] = useState<UploadJob[]>(uploadQueue.getJobs());
+
+  useEffect(() => uploadQueue.subscribe(setJobs), []);
+
+  return {
+    jobs,
+    retry: (id: string) => uploadQueue.retry(id),
+    cancel: (id: string) => uploadQueue.cancel(id),
+  };
+}
@@ -0,0 +1,271 @@
+// scripts/mock-upload-server.js
+// Local stand-in for the analysis server, for exercising the chunked upload
+// protocol (src/chunkedUpload.ts), the upload queue and the status transport
+// (src/statusTransport.ts) offline.
+//
+//   npm run mock-server
+//
+// Environment:
+//   PORT                 listen port (default 8000)
+//   MOCK_AUTH_TOKEN      require `Authorization: Bearer <token>` when set
+//   MOCK_FAIL_RATE       share of chunk requests dropped without a response, 0..1 (default 0)
+//   MOCK_PROCESSING_MS   how long a finalized upload stays 'processing' (default 4000)
+//   MOCK_DISABLE_WS      set to 1 to refuse WebSocket status connections, forcing polling
+//
+// Point a server profile in Settings at http://<this machine's LAN IP>:<PORT>.
+const http = require("http");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const crypto = require("crypto");
+
+const PORT = Number(process.env.PORT) || 8000;
+const AUTH_TOKEN = process.env.MOCK_AUTH_TOKEN || null;
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE) || 0;
+const PROCESSING_MS = Number(process.env.MOCK_PROCESSING_MS) || 4000;
+const DISABLE_WS = process.env.MOCK_DISABLE_WS === "1";
+const WS_PUSH_INTERVAL_MS = 500;
+const STAGES = ["detecting", "pose", "classifying", "rendering"];
+const STORAGE_DIR = path.join(os.tmpdir(), "javelin-mock-uploads");
+
+fs.mkdirSync(STORAGE_DIR, { recursive: true });
+
+const uploads = new Map(); // upload_id -> { size, checksum, mimeType, offset, filePath }
+const files = new Map(); // file_id -> { filePath, finalizedAt }
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes, previous = 0) {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const newId = () => crypto.randomBytes(8).toString("hex");
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+const readJson = async req => {
+  const body = await readBody(req);
+  return body.length > 0 ? JSON.parse(body.toString("utf8")) : {};
+};
+
+// Simulates a connection dropped mid-request
+const shouldDrop = () => Math.random() < FAIL_RATE;
+
+function fakeResult(fileId) {
+  const probabilities = {
+    "Good Technique": 0.62,
+    "Low Arm": 0.18,
+    "Poor Left Leg Block": 0.1,
+    "Poor Right Leg Block": 0.04,
+    "Both Errors": 0.06,
+  };
+  return {
+    prediction: "Good Technique",
+    confidence: probabilities["Good Technique"],
+    probabilities,
+    poseData: [],
+    analysisId: `mock_${fileId}`,
+    timestamp: Date.now(),
+  };
+}
+
+async function handleInit(req, res) {
+  const { size, checksum, mime_type: mimeType } = await readJson(req);
+  if (!Number.isInteger(size) || size <= 0 || typeof checksum !== "string") {
+    return sendJson(res, 400, { error: "size and checksum are required" });
+  }
+  const uploadId = newId();
+  uploads.set(uploadId, { size, checksum, mimeType, offset: 0, filePath: path.join(STORAGE_DIR, `${uploadId}.part`) });
+  fs.writeFileSync(uploads.get(uploadId).filePath, Buffer.alloc(0));
+  sendJson(res, 201, { upload_id: uploadId, offset: 0 });
+}
+
+async function handleChunk(req, res, upload) {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(req.headers["content-range"] || "");
+  if (!match) return sendJson(res, 400, { error: "Content-Range header required" });
+
+  const start = Number(match[1]);
+  const body = await readBody(req);
+  if (start !== upload.offset) return sendJson(res, 409, { error: "Offset mismatch", offset: upload.offset });
+  if (body.length !== Number(match[2]) - start + 1 || upload.offset + body.length > upload.size) {
+    return sendJson(res, 400, { error: "Chunk length does not match Content-Range" });
+  }
+
+  // Drop either before storing (client resends) or after (client resumes past it)
+  if (shouldDrop()) return req.socket.destroy();
+  fs.appendFileSync(upload.filePath, body);
+  upload.offset += body.length;
+  if (shouldDrop()) return req.socket.destroy();
+  sendJson(res, 200, { offset: upload.offset });
+}
+
+function handleFinalize(res, uploadId, upload) {
+  if (upload.offset !== upload.size) {
+    return sendJson(res, 409, { error: "Upload incomplete", offset: upload.offset });
+  }
+  const actual = crc32(fs.readFileSync(upload.filePath)).toString(16).padStart(8, "0");
+  if (actual !== upload.checksum.toLowerCase()) {
+    uploads.delete(uploadId);
+    fs.rmSync(upload.filePath, { force: true });
+    return sendJson(res, 422, { error: `Checksum mismatch: expected ${upload.checksum}, got ${actual}` });
+  }
+
+  const fileId = newId();
+  const extension = upload.mimeType === "video/quicktime" ? "mov" : "mp4";
+  const filePath = path.join(STORAGE_DIR, `${fileId}.${extension}`);
+  fs.renameSync(upload.filePath, filePath);
+  uploads.delete(uploadId);
+  files.set(fileId, { filePath, finalizedAt: Date.now() });
+  sendJson(res, 202, { file_id: fileId, status_url: `/status/${fileId}`, message: "Video received" });
+}
+
+// Status payload shared by polling and the WebSocket
+function statusOf(fileId) {
+  const file = files.get(fileId);
+  if (!file) return null;
+  const elapsed = Date.now() - file.finalizedAt;
+  if (elapsed < PROCESSING_MS) {
+    const progress = elapsed / PROCESSING_MS;
+    const stage = STAGES[Math.min(STAGES.length - 1, Math.floor(progress * STAGES.length))];
+    return { status: "processing", stage, progress, message: "Analyzing your throw..." };
+  }
+  return {
+    status: "completed",
+    progress: 1,
+    result: fakeResult(fileId),
+    video_url: `/videos/${path.basename(file.filePath)}`,
+  };
+}
+
+function handleStatus(res, fileId) {
+  const status = statusOf(fileId);
+  if (!status) return sendJson(res, 404, { error: "Unknown file" });
+  sendJson(res, 200, status);
+}
+
+// Minimal server-side WebSocket: text frames out, incoming frames ignored
+function sendFrame(socket, text, opcode = 0x1) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  socket.write(Buffer.concat([header, payload]));
+}
+
+function handleStatusSocket(req, socket, fileId) {
+  if (DISABLE_WS || !files.has(fileId) || !req.headers["sec-websocket-key"]) {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+  const accept = crypto
+    .createHash("sha1")
+    .update(`${req.headers["sec-websocket-key"]}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const push = () => {
+    const status = statusOf(fileId);
+    sendFrame(socket, JSON.stringify(status));
+    if (status.status !== "processing") {
+      clearInterval(timer);
+      sendFrame(socket, "", 0x8); // close
+      socket.end();
+    }
+  };
+  const timer = setInterval(push, WS_PUSH_INTERVAL_MS);
+  socket.on("error", () => clearInterval(timer));
+  socket.on("close", () => clearInterval(timer));
+  push();
+}
+
+function handleVideo(res, fileName) {
+  const filePath = path.join(STORAGE_DIR, path.basename(fileName));
+  if (!fs.existsSync(filePath)) return sendJson(res, 404, { error: "Unknown video" });
+  res.writeHead(200, {
+    "Content-Type": filePath.endsWith(".mov") ? "video/quicktime" : "video/mp4",
+    "Content-Length": fs.statSync(filePath).size,
+  });
+  fs.createReadStream(filePath).pipe(res);
+}
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, "http://localhost");
+  console.log(`${req.method} ${pathname}`);
+
+  if (AUTH_TOKEN && req.headers.authorization !== `Bearer ${AUTH_TOKEN}`) {
+    return sendJson(res, 401, { error: "Unauthorized" });
+  }
+
+  try {
+    let match;
+    if (req.method === "GET" && pathname === "/health") return sendJson(res, 200, { status: "ok" });
+    if (req.method === "POST" && pathname === "/upload/init") return await handleInit(req, res);
+
+    if ((match = /^\/upload\/([0-9a-f]+)(\/finalize)?$/.exec(pathname))) {
+      const upload = uploads.get(match[1]);
+      if (!upload) return sendJson(res, 404, { error: "Unknown upload" });
+      if (req.method === "GET" && !match[2]) return sendJson(res, 200, { offset: upload.offset, size: upload.size });
+      if (req.method === "PUT" && !match[2]) return await handleChunk(req, res, upload);
+      if (req.method === "POST" && match[2]) return handleFinalize(res, match[1], upload);
+    }
+
+    if (req.method === "GET" && (match = /^\/status\/([0-9a-f]+)$/.exec(pathname))) return handleStatus(res, match[1]);
+    if (req.method === "GET" && (match = /^\/videos\/([\w.]+)$/.exec(pathname))) return handleVideo(res, match[1]);
+
+    sendJson(res, 404, { error: "Not found" });
+  } catch (error) {
+    console.error(error);
+    sendJson(res, 500, { error: error.message });
+  }
+});
+
+server.on("upgrade", (req, socket) => {
+  const { pathname } = new URL(req.url, "http://localhost");
+  console.log(`UPGRADE ${pathname}`);
+  const match = /^\/status\/([0-9a-f]+)\/ws$/.exec(pathname);
+  if (!match || (AUTH_TOKEN && req.headers.authorization !== `Bearer ${AUTH_TOKEN}`)) {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+  handleStatusSocket(req, socket, match[1]);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock analysis server on http://localhost:${PORT} (storage: ${STORAGE_DIR})`);
+});
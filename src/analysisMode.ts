@@ -0,0 +1,97 @@
+// src/analysisMode.ts
+// Chooses between the analysis server and the on-device engine for a clip,
+// and runs the on-device path. Both produce an AnalysisResult, so the
+// feedback screen does not depend on where a result came from.
+import { Platform } from "react-native";
+import { aiAnalysisEngine, AnalysisResult, AnalysisStage } from "@/components/AIAnalysisEngine";
+import { NormalizedPoint } from "@/components/PersonTracker";
+import { NetworkError } from "@/src/api";
+import { getAnalysisApi } from "@/src/apiClient";
+import { athleteTag, getAthlete } from "@/src/athleteStore";
+import { addHistoryEntry } from "@/src/historyStore";
+import {
+  AnalysisMode, analysisOptionsFor, AUTO_ON_DEVICE_MAX_DURATION_MS, loadSettings
+} from "@/src/settingsStore";
+
+export type AnalysisPath = "server" | "on-device";
+
+export interface OnDeviceRequest {
+  videoUri: string;
+  throwerPoint: NormalizedPoint | null;
+  athleteId: string | null;
+  sessionId: string | null;
+}
+
+// Frame extraction uses native thumbnails, so the engine only runs on iOS and Android
+export const isOnDeviceAvailable = (): boolean => Platform.OS !== "web";
+
+/** Download and cache the on-device models in the background so later clips can run offline */
+export function prefetchOnDeviceModels(): void {
+  if (!isOnDeviceAvailable()) return;
+  aiAnalysisEngine.initialize().catch(error => console.warn("Failed to prefetch on-device models:", error));
+}
+
+/** Where to analyze a clip; `durationMs` is null when the player has not reported it yet */
+export async function chooseAnalysisPath(mode: AnalysisMode, durationMs: number | null): Promise<AnalysisPath> {
+  if (!isOnDeviceAvailable()) return "server";
+  if (mode !== "auto") return mode;
+  // Until the models are cached the on-device path needs the network as well
+  if (!(await aiAnalysisEngine.isAvailableOffline())) {
+    prefetchOnDeviceModels();
+    return "server";
+  }
+  if (durationMs !== null && durationMs <= AUTO_ON_DEVICE_MAX_DURATION_MS) return "on-device";
+
+  try {
+    const { api } = await getAnalysisApi();
+    await api.health();
+    return "server";
+  } catch (error) {
+    // Offline or the server is unreachable; other errors are left to the upload queue
+    return error instanceof NetworkError ? "on-device" : "server";
+  }
+}
+
+/** Route params for the processing screen of an on-device analysis */
+export const onDeviceProcessingParams = (request: OnDeviceRequest): Record<string, string> => ({
+  mode: "on-device",
+  videoUri: request.videoUri,
+  ...(request.throwerPoint && { throwerX: String(request.throwerPoint.x), throwerY: String(request.throwerPoint.y) }),
+  ...(request.athleteId && { athleteId: request.athleteId }),
+  ...(request.sessionId && { sessionId: request.sessionId }),
+});
+
+/**
+ * Analyze a clip with the on-device engine using the quality setting and the
+ * athlete's throwing hand, and save it to History like a server result.
+ */
+export async function analyzeOnDevice(
+  request: OnDeviceRequest,
+  onStage?: (stage: AnalysisStage) => void
+): Promise<{ result: AnalysisResult; historyId: string | undefined }> {
+  const [settings, athlete] = await Promise.all([
+    loadSettings(),
+    request.athleteId ? getAthlete(request.athleteId) : Promise.resolve(null),
+  ]);
+
+  const result = await aiAnalysisEngine.processVideo(request.videoUri, {
+    ...analysisOptionsFor(settings),
+    ...(request.throwerPoint && { tapPoint: request.throwerPoint }),
+    throwingHand: athlete?.throwingHand ?? "auto",
+    onStage,
+  });
+
+  const historyId = await addHistoryEntry({
+    result,
+    videoUri: request.videoUri,
+    athlete: athlete ? athleteTag(athlete) : null,
+    sessionId: request.sessionId,
+  })
+    .then(entry => entry.id)
+    .catch(error => {
+      console.warn("Failed to save throw to history:", error);
+      return undefined;
+    });
+
+  return { result, historyId };
+}
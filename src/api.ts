@@ -0,0 +1,439 @@
+// src/api.ts
+// Typed requests and responses of the analysis server. Responses are
+// validated at runtime and failures surface as ApiError subclasses, so a
+// backend change fails loudly instead of leaving undefined fields in the UI.
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, isAxiosError, isCancel } from "axios";
+import { AnalysisResult, AnalysisStage, PoseFrame, PoseLandmark, TechniquePrediction } from "@/components/AIAnalysisEngine";
+import { BiomechanicalMetrics, METRIC_KEYS, MetricKey } from "@/components/BiomechanicsMetrics";
+import { ThrowingHand } from "@/components/Handedness";
+import { PhaseBoundary, PhaseSegmentation, THROW_PHASES, ThrowPhase } from "@/components/PhaseSegmenter";
+
+const HEALTH_TIMEOUT_MS = 10000;
+const UPLOAD_TIMEOUT_MS = 300000;
+const CHUNK_TIMEOUT_MS = 60000;
+const FINALIZE_TIMEOUT_MS = 120000;
+const STATUS_TIMEOUT_MS = 15000;
+
+// ----------------------------
+// Errors
+// ----------------------------
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null = null, // HTTP status, null without a response
+    readonly transient = false // worth retrying unchanged
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** No response: offline, DNS failure, timeout */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message, null, true);
+    this.name = "NetworkError";
+  }
+}
+
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super("Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+/** 401/403: missing or rejected auth token */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "AuthError";
+  }
+}
+
+/** 404/410: unknown upload or file, e.g. after a server restart */
+export class NotFoundError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "NotFoundError";
+  }
+}
+
+/** 408/429/5xx */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status, true);
+    this.name = "ServerError";
+  }
+}
+
+/** The server does not implement the chunked upload protocol */
+export class UnsupportedEndpointError extends ApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = "UnsupportedEndpointError";
+  }
+}
+
+/** A chunk did not start at the offset the server has acknowledged */
+export class OffsetConflictError extends ApiError {
+  constructor(message: string, readonly offset: number) {
+    super(message, 409);
+    this.name = "OffsetConflictError";
+  }
+}
+
+/** The assembled upload does not match the client's CRC32 */
+export class ChecksumMismatchError extends ApiError {
+  constructor(message: string) {
+    super(message, 422);
+    this.name = "ChecksumMismatchError";
+  }
+}
+
+/** A response did not have the expected shape */
+export class InvalidResponseError extends ApiError {
+  constructor(message: string) {
+    super(`Unexpected server response: ${message}`);
+    this.name = "InvalidResponseError";
+  }
+}
+
+const serverMessage = (data: unknown): string | null => {
+  if (typeof data !== "object" || data === null) return null;
+  const { error, message } = data as Record<string, unknown>;
+  return typeof error === "string" ? error : typeof message === "string" ? message : null;
+};
+
+/** Map anything thrown by a request to an ApiError */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (isCancel(error)) return new RequestCancelledError();
+  if (!isAxiosError(error)) return new ApiError(error instanceof Error ? error.message : String(error));
+
+  const response = error.response;
+  const message = serverMessage(response?.data) ?? error.message;
+  if (!response) return new NetworkError(message);
+  const { status } = response;
+  if (status === 401 || status === 403) return new AuthError(message, status);
+  if (status === 404 || status === 410) return new NotFoundError(message, status);
+  if (status === 408 || status === 429 || status >= 500) return new ServerError(message, status);
+  return new ApiError(message, status);
+}
+
+// ----------------------------
+// Runtime validation
+// ----------------------------
+
+type JsonObject = Record<string, unknown>;
+
+const invalid = (message: string): never => {
+  throw new InvalidResponseError(message);
+};
+
+const asObject = (value: unknown, name: string): JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value) ? (value as JsonObject) : invalid(`${name} is not an object`);
+
+const asString = (value: unknown, name: string): string =>
+  typeof value === "string" && value.length > 0 ? value : invalid(`${name} is missing`);
+
+const asId = (value: unknown, name: string): string =>
+  typeof value === "number" && Number.isFinite(value) ? String(value) : asString(value, name);
+
+const asNumber = (value: unknown, name: string): number =>
+  typeof value === "number" && Number.isFinite(value) ? value : invalid(`${name} is not a number`);
+
+const asOffset = (value: unknown, name: string): number => {
+  const offset = asNumber(value, name);
+  return Number.isInteger(offset) && offset >= 0 ? offset : invalid(`${name} is not a byte offset`);
+};
+
+const asProbability = (value: unknown, name: string): number => {
+  const probability = asNumber(value, name);
+  return probability >= 0 && probability <= 1 ? probability : invalid(`${name} is outside 0..1`);
+};
+
+const asList = (value: unknown, name: string): unknown[] =>
+  Array.isArray(value) ? value : invalid(`${name} is not a list`);
+
+const optionalString = (value: unknown): string | null => (typeof value === "string" ? value : null);
+
+const isThrowPhase = (value: unknown): value is ThrowPhase => THROW_PHASES.includes(value as ThrowPhase);
+
+const parseLandmark = (value: unknown, name: string): PoseLandmark => {
+  const data = asObject(value, name);
+  return {
+    x: asNumber(data.x, `${name}.x`),
+    y: asNumber(data.y, `${name}.y`),
+    ...(typeof data.z === "number" && Number.isFinite(data.z) && { z: data.z }),
+    visibility: asNumber(data.visibility, `${name}.visibility`),
+    ...(typeof data.isCorrect === "boolean" && { isCorrect: data.isCorrect }),
+    ...(data.interpolated === true && { interpolated: true }),
+  };
+};
+
+const parsePoseFrame = (value: unknown, index: number, name: string): PoseFrame => {
+  const data = asObject(value, name);
+  return {
+    frame: data.frame === undefined ? index : asNumber(data.frame, `${name}.frame`),
+    timestamp: asNumber(data.timestamp, `${name}.timestamp`),
+    landmarks: asList(data.landmarks, `${name}.landmarks`).map((landmark, i) => parseLandmark(landmark, `${name}.landmarks[${i}]`)),
+    ...(isThrowPhase(data.phase) && { phase: data.phase }),
+    ...(data.unreliable === true && { unreliable: true }),
+  };
+};
+
+const parsePhaseBoundary = (value: unknown, name: string): PhaseBoundary => {
+  const data = asObject(value, name);
+  if (!isThrowPhase(data.phase)) invalid(`${name}.phase is not a throw phase`);
+  return {
+    phase: data.phase as ThrowPhase,
+    startFrame: asNumber(data.startFrame, `${name}.startFrame`),
+    endFrame: asNumber(data.endFrame, `${name}.endFrame`),
+    startTime: asNumber(data.startTime, `${name}.startTime`),
+    endTime: asNumber(data.endTime, `${name}.endTime`),
+  };
+};
+
+const parsePhaseSegmentation = (value: unknown, name: string): PhaseSegmentation => {
+  const data = asObject(value, name);
+  return {
+    phases: asList(data.phases, `${name}.phases`).map((phase, i) => parsePhaseBoundary(phase, `${name}.phases[${i}]`)),
+    releaseFrame: asNumber(data.releaseFrame, `${name}.releaseFrame`),
+    releaseTimestamp: asNumber(data.releaseTimestamp, `${name}.releaseTimestamp`),
+  };
+};
+
+const parseMetrics = (value: unknown, name: string): BiomechanicalMetrics => {
+  const data = asObject(value, name);
+  return Object.fromEntries(
+    METRIC_KEYS.map(key => [key, data[key] == null ? null : asNumber(data[key], `${name}.${key}`)])
+  ) as Record<MetricKey, number | null>;
+};
+
+// The on-device extras are optional, so a malformed one is dropped rather
+// than failing the whole result
+const optionalField = <T>(value: unknown, parse: (value: unknown) => T): T | undefined => {
+  if (value == null) return undefined;
+  try {
+    return parse(value);
+  } catch (error) {
+    if (error instanceof InvalidResponseError) return undefined;
+    throw error;
+  }
+};
+
+/** Validate an analysis result from the server or a route param */
+export function parseAnalysisResult(value: unknown, name = "result"): AnalysisResult {
+  const data = asObject(value, name);
+  const confidence = asProbability(data.confidence, `${name}.confidence`);
+
+  const probabilities = asObject(data.probabilities ?? {}, `${name}.probabilities`);
+  Object.entries(probabilities).forEach(([label, probability]) => asProbability(probability, `${name}.probabilities.${label}`));
+
+  const poseData = asList(data.poseData ?? [], `${name}.poseData`)
+    .map((frame, i) => parsePoseFrame(frame, i, `${name}.poseData[${i}]`));
+
+  const phases = optionalField(data.phases, phases => parsePhaseSegmentation(phases, `${name}.phases`));
+  const metrics = optionalField(data.metrics, metrics => parseMetrics(metrics, `${name}.metrics`));
+  const throwingHand: ThrowingHand | undefined =
+    data.throwingHand === "left" || data.throwingHand === "right" ? data.throwingHand : undefined;
+
+  return {
+    prediction: asString(data.prediction, `${name}.prediction`) as TechniquePrediction,
+    confidence,
+    probabilities: probabilities as Record<string, number>,
+    poseData,
+    analysisId: optionalString(data.analysisId) ?? "",
+    timestamp: typeof data.timestamp === "number" ? data.timestamp : Date.now(),
+    // Only present for on-device analysis
+    ...(phases && { phases }),
+    ...(metrics && { metrics }),
+    ...(throwingHand && { throwingHand }),
+  };
+}
+
+// ----------------------------
+// Requests and responses
+// ----------------------------
+
+// Server pipeline stages in order; the on-device engine reports the same ones
+export type ProcessingStage = AnalysisStage;
+
+export const PROCESSING_STAGES: ProcessingStage[] = ["detecting", "pose", "classifying", "rendering"];
+
+export type ProcessingStatus =
+  | {
+      status: "processing";
+      stage: ProcessingStage | null;
+      progress: number | null; // 0..1 over the whole pipeline, if reported
+      message: string | null;
+    }
+  | { status: "completed"; result: AnalysisResult; videoUrl: string }
+  | { status: "failed"; error: string };
+
+export interface UploadInitRequest {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  checksum: string; // CRC32, 8 hex digits
+  chunkSize: number;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  offset: number; // bytes acknowledged so far
+}
+
+export interface AcceptedUpload {
+  fileId: string;
+  statusUrl: string;
+  message: string | null;
+}
+
+/** Validate a status payload from polling or the WebSocket */
+export function parseProcessingStatus(value: unknown): ProcessingStatus {
+  const data = asObject(value, "status response");
+  switch (data.status) {
+    case "completed":
+      return {
+        status: "completed",
+        result: parseAnalysisResult(data.result),
+        videoUrl: asString(data.video_url, "video_url"),
+      };
+    case "failed":
+    case "error":
+      return {
+        status: "failed",
+        error: serverMessage(data) ?? "Processing failed on the server",
+      };
+    case "processing":
+    case "queued":
+      return {
+        status: "processing",
+        stage: PROCESSING_STAGES.includes(data.stage as ProcessingStage) ? (data.stage as ProcessingStage) : null,
+        progress: typeof data.progress === "number" ? Math.min(1, Math.max(0, data.progress)) : null,
+        message: optionalString(data.message),
+      };
+    default:
+      return invalid(`unknown status ${JSON.stringify(data.status)}`);
+  }
+}
+
+const parseAcceptedUpload = (response: AxiosResponse): AcceptedUpload => {
+  if (response.status !== 202) invalid(`expected 202 Accepted, got ${response.status}`);
+  const data = asObject(response.data, "upload response");
+  return {
+    fileId: asId(data.file_id, "file_id"),
+    statusUrl: asString(data.status_url, "status_url"),
+    message: optionalString(data.message),
+  };
+};
+
+/**
+ * Endpoints of the analysis server. Every method resolves with validated
+ * data or rejects with an ApiError.
+ */
+export class AnalysisApi {
+  constructor(private readonly client: AxiosInstance) {}
+
+  /** Resolves with the HTTP status of `/health` */
+  health(): Promise<number> {
+    return this.request(() => this.client.get("/health", { timeout: HEALTH_TIMEOUT_MS }), response => response.status);
+  }
+
+  /** Single multipart upload */
+  uploadVideo(
+    form: FormData,
+    config: Pick<AxiosRequestConfig, "signal" | "onUploadProgress">
+  ): Promise<AcceptedUpload> {
+    return this.request(
+      () => this.client.post("/upload", form, {
+        ...config,
+        headers: { "Content-Type": "multipart/form-data" },
+        timeout: UPLOAD_TIMEOUT_MS,
+      }),
+      parseAcceptedUpload
+    );
+  }
+
+  initUpload(request: UploadInitRequest, signal?: AbortSignal): Promise<UploadSession> {
+    return this.request(
+      () => this.client.post(
+        "/upload/init",
+        {
+          file_name: request.fileName,
+          mime_type: request.mimeType,
+          size: request.size,
+          checksum: request.checksum,
+          chunk_size: request.chunkSize,
+        },
+        { signal, timeout: CHUNK_TIMEOUT_MS }
+      ),
+      response => {
+        const data = asObject(response.data, "init response");
+        return { uploadId: asId(data.upload_id, "upload_id"), offset: asOffset(data.offset ?? 0, "offset") };
+      },
+      error => (error instanceof NotFoundError ? new UnsupportedEndpointError(error.message) : error)
+    );
+  }
+
+  /** Bytes of the upload the server has acknowledged */
+  getUploadOffset(uploadId: string, signal?: AbortSignal): Promise<number> {
+    return this.request(
+      () => this.client.get(`/upload/${uploadId}`, { signal, timeout: CHUNK_TIMEOUT_MS }),
+      response => asOffset(asObject(response.data, "upload response").offset, "offset")
+    );
+  }
+
+  /** Send bytes [start, start + chunk length); resolves with the new acknowledged offset */
+  putChunk(uploadId: string, chunk: ArrayBuffer, start: number, totalSize: number, signal?: AbortSignal): Promise<number> {
+    return this.request(
+      () => this.client.put(`/upload/${uploadId}`, chunk, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Range": `bytes ${start}-${start + chunk.byteLength - 1}/${totalSize}`,
+        },
+        signal,
+        timeout: CHUNK_TIMEOUT_MS,
+      }),
+      response => asOffset(asObject(response.data, "chunk response").offset, "offset"),
+      (error, cause) => {
+        const offset = isAxiosError(cause) && error.status === 409
+          ? (cause.response?.data as JsonObject | undefined)?.offset
+          : undefined;
+        return typeof offset === "number" ? new OffsetConflictError(error.message, offset) : error;
+      }
+    );
+  }
+
+  finalizeUpload(uploadId: string, checksum: string, signal?: AbortSignal): Promise<AcceptedUpload> {
+    return this.request(
+      () => this.client.post(`/upload/${uploadId}/finalize`, { checksum }, { signal, timeout: FINALIZE_TIMEOUT_MS }),
+      parseAcceptedUpload,
+      error => (error.status === 422 ? new ChecksumMismatchError(error.message) : error)
+    );
+  }
+
+  getStatus(statusUrl: string, signal?: AbortSignal): Promise<ProcessingStatus> {
+    return this.request(
+      () => this.client.get(statusUrl, { signal, timeout: STATUS_TIMEOUT_MS }),
+      response => parseProcessingStatus(response.data)
+    );
+  }
+
+  private async request<T>(
+    send: () => Promise<AxiosResponse>,
+    parse: (response: AxiosResponse) => T,
+    mapError: (error: ApiError, cause: unknown) => ApiError = error => error
+  ): Promise<T> {
+    let response: AxiosResponse;
+    try {
+      response = await send();
+    } catch (cause) {
+      throw mapError(toApiError(cause), cause);
+    }
+    return parse(response);
+  }
+}
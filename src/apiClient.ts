@@ -0,0 +1,75 @@
+// src/apiClient.ts
+// Shared axios client for the analysis server, configured from a server profile
+import axios, { AxiosInstance, isAxiosError } from "axios";
+import { URL } from "react-native-url-polyfill";
+import { AnalysisApi, AuthError, NetworkError, toApiError } from "@/src/api";
+import { getActiveServerProfile, ServerProfile } from "@/src/serverStore";
+
+export interface ConnectionCheck {
+  ok: boolean;
+  status: number | null; // HTTP status, null if the server was unreachable
+  latencyMs: number;
+  message: string;
+}
+
+/** Headers sent with every request to the profile's server */
+export function serverHeaders(profile: ServerProfile): Record<string, string> {
+  return {
+    ...profile.headers,
+    ...(profile.authToken && { Authorization: `Bearer ${profile.authToken}` }),
+  };
+}
+
+/** Absolute URL for a server path such as `/status/<id>`; absolute URLs pass through */
+export function serverUrl(profile: ServerProfile, path: string): string {
+  if (/^https?:\/\//i.test(path)) return path;
+  return `${profile.baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+/** Whether `url` is on the profile's server, so its auth headers may be sent there */
+export function isServerUrl(profile: ServerProfile, url: string): boolean {
+  const origin = originOf(url);
+  return origin !== null && origin === originOf(profile.baseUrl);
+}
+
+export function createApiClient(profile: ServerProfile): AxiosInstance {
+  return axios.create({ baseURL: profile.baseUrl, headers: serverHeaders(profile) });
+}
+
+/** Client for the active profile, re-read on every call so Settings changes apply immediately */
+export async function getApiClient(): Promise<{ client: AxiosInstance; profile: ServerProfile }> {
+  const profile = await getActiveServerProfile();
+  return { client: createApiClient(profile), profile };
+}
+
+/** Typed API for the active profile */
+export async function getAnalysisApi(): Promise<{ api: AnalysisApi; profile: ServerProfile }> {
+  const { client, profile } = await getApiClient();
+  return { api: new AnalysisApi(client), profile };
+}
+
+/** GET `/health` on the profile's server */
+export async function testConnection(profile: ServerProfile): Promise<ConnectionCheck> {
+  const startedAt = Date.now();
+  try {
+    const status = await new AnalysisApi(createApiClient(profile)).health();
+    const latencyMs = Date.now() - startedAt;
+    return { ok: true, status, latencyMs, message: `Connected in ${latencyMs} ms` };
+  } catch (cause) {
+    const error = toApiError(cause);
+    let message = error.message || "Server unreachable";
+    if (error instanceof AuthError) message = "The server rejected the auth token";
+    else if (error instanceof NetworkError && isAxiosError(cause) && cause.code === "ECONNABORTED") {
+      message = "The server did not respond in time";
+    } else if (error.status !== null) message = `The server responded with HTTP ${error.status}`;
+    return { ok: false, status: error.status, latencyMs: Date.now() - startedAt, message };
+  }
+}
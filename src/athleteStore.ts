@@ -0,0 +1,89 @@
+// src/athleteStore.ts
+// Athlete profiles and the active athlete, persisted in AsyncStorage
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ThrowingHand } from "@/components/JointRoles";
+import { AthleteTag } from "@/src/historyStore";
+
+const ATHLETES_KEY = "javelin.athletes.v1";
+const ACTIVE_ATHLETE_KEY = "javelin.activeAthlete.v1";
+
+// Event categories by implement weight
+export type AthleteEvent = "men800" | "women600" | "u18men700" | "u18women500" | "masters";
+
+export const ATHLETE_EVENTS: { value: AthleteEvent; label: string }[] = [
+  { value: "men800", label: "Men (800 g)" },
+  { value: "women600", label: "Women (600 g)" },
+  { value: "u18men700", label: "U18 Men (700 g)" },
+  { value: "u18women500", label: "U18 Women (500 g)" },
+  { value: "masters", label: "Masters" },
+];
+
+export interface Athlete {
+  id: string;
+  name: string;
+  throwingHand: ThrowingHand;
+  heightCm: number | null;
+  event: AthleteEvent;
+  personalBest: number | null; // metres
+}
+
+export type AthleteDraft = Omit<Athlete, "id">;
+
+const generateId = () => `athlete_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+export const athleteTag = (athlete: Athlete): AthleteTag => ({
+  id: athlete.id,
+  name: athlete.name,
+  throwingHand: athlete.throwingHand,
+});
+
+export const athleteEventLabel = (event: AthleteEvent): string =>
+  ATHLETE_EVENTS.find(option => option.value === event)?.label ?? event;
+
+export async function loadAthletes(): Promise<Athlete[]> {
+  try {
+    const raw = await AsyncStorage.getItem(ATHLETES_KEY);
+    return raw ? (JSON.parse(raw) as Athlete[]) : [];
+  } catch (error) {
+    console.warn("Failed to read athletes:", error);
+    return [];
+  }
+}
+
+async function writeAthletes(athletes: Athlete[]): Promise<void> {
+  await AsyncStorage.setItem(ATHLETES_KEY, JSON.stringify(athletes));
+}
+
+export async function getAthlete(id: string): Promise<Athlete | null> {
+  const athletes = await loadAthletes();
+  return athletes.find(athlete => athlete.id === id) ?? null;
+}
+
+export async function saveAthlete(draft: AthleteDraft, id?: string): Promise<Athlete> {
+  const athletes = await loadAthletes();
+  const athlete: Athlete = { ...draft, id: id ?? generateId() };
+  const index = athletes.findIndex(item => item.id === athlete.id);
+  if (index >= 0) athletes[index] = athlete;
+  else athletes.push(athlete);
+  await writeAthletes(athletes);
+  return athlete;
+}
+
+/** Delete a profile; history entries keep their athlete name snapshot */
+export async function deleteAthlete(id: string): Promise<void> {
+  const athletes = await loadAthletes();
+  await writeAthletes(athletes.filter(athlete => athlete.id !== id));
+  if ((await AsyncStorage.getItem(ACTIVE_ATHLETE_KEY)) === id) {
+    await AsyncStorage.removeItem(ACTIVE_ATHLETE_KEY);
+  }
+}
+
+export async function getActiveAthlete(): Promise<Athlete | null> {
+  const id = await AsyncStorage.getItem(ACTIVE_ATHLETE_KEY);
+  return id ? getAthlete(id) : null;
+}
+
+export async function setActiveAthleteId(id: string | null): Promise<void> {
+  if (id) await AsyncStorage.setItem(ACTIVE_ATHLETE_KEY, id);
+  else await AsyncStorage.removeItem(ACTIVE_ATHLETE_KEY);
+}
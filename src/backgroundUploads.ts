@@ -0,0 +1,33 @@
+// src/backgroundUploads.ts
+// Background task that drains the upload queue while the app is closed. The
+// OS decides when it runs (at most every 15 minutes, often much less), so it
+// only complements the retries the queue does itself while the app is open.
+import { Platform } from "react-native";
+import * as BackgroundTask from "expo-background-task";
+import * as TaskManager from "expo-task-manager";
+import { uploadQueue } from "@/src/uploadQueue";
+
+const UPLOAD_TASK = "javelin.uploadQueue.drain";
+const MINIMUM_INTERVAL_MINUTES = 15;
+
+// Tasks must be defined when the module loads, before the OS can launch one
+if (Platform.OS !== "web") {
+  TaskManager.defineTask(UPLOAD_TASK, async () => {
+    try {
+      await uploadQueue.drain();
+      return BackgroundTask.BackgroundTaskResult.Success;
+    } catch (error) {
+      console.warn("Background upload failed:", error);
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  });
+}
+
+/** Ask the OS to run the upload task periodically; a no-op where that is not possible */
+export async function registerBackgroundUploads(): Promise<void> {
+  if (Platform.OS === "web") return;
+  const status = await BackgroundTask.getStatusAsync();
+  if (status !== BackgroundTask.BackgroundTaskStatus.Available) return;
+  if (await TaskManager.isTaskRegisteredAsync(UPLOAD_TASK)) return;
+  await BackgroundTask.registerTaskAsync(UPLOAD_TASK, { minimumInterval: MINIMUM_INTERVAL_MINUTES });
+}
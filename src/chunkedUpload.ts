@@ -0,0 +1,157 @@
+// src/chunkedUpload.ts
+// Resumable chunked upload protocol:
+//   POST /upload/init           {file_name, mime_type, size, checksum, chunk_size} -> {upload_id, offset}
+//   GET  /upload/<id>           -> {offset}, the bytes acknowledged so far
+//   PUT  /upload/<id>           chunk bytes with `Content-Range: bytes start-end/size` -> {offset}
+//                               409 {offset} if the chunk does not start at the acknowledged offset
+//   POST /upload/<id>/finalize  {checksum} -> 202 {file_id, status_url}; 422 if the CRC32 does not match
+// Requests and response validation live in src/api.ts.
+import { Platform } from "react-native";
+import * as FileSystem from "expo-file-system";
+import { AcceptedUpload, AnalysisApi, NotFoundError, OffsetConflictError, RequestCancelledError } from "@/src/api";
+
+export const CHUNK_SIZE = 1024 * 1024;
+
+// Server-side upload session; persisted so an interrupted upload resumes
+export interface ResumableUploadState {
+  uploadId: string;
+  uploadedBytes: number; // last offset acknowledged by the server
+  fileSize: number;
+  checksum: string; // CRC32 of the whole file, 8 hex digits
+}
+
+export interface ChunkedUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  onCheckpoint?: (state: ResumableUploadState) => Promise<void>; // after init and every acknowledged chunk
+}
+
+interface ChunkSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC32 (IEEE); pass the previous value to continue over consecutive chunks */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export const formatCrc32 = (value: number): string => value.toString(16).padStart(8, "0");
+
+/** File name and MIME type sent with an upload, from the clip's extension */
+export function videoFileType(videoUri: string): { fileName: string; mimeType: string } {
+  if (videoUri.endsWith(".mov")) return { fileName: "video.mov", mimeType: "video/quicktime" };
+  if (videoUri.endsWith(".avi")) return { fileName: "video.avi", mimeType: "video/x-msvideo" };
+  return { fileName: "video.mp4", mimeType: "video/mp4" };
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+async function openChunkSource(videoUri: string): Promise<ChunkSource> {
+  if (Platform.OS === "web") {
+    const blob = await (await fetch(videoUri)).blob();
+    return {
+      size: blob.size,
+      read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+    };
+  }
+
+  const info = await FileSystem.getInfoAsync(videoUri);
+  if (!info.exists) throw new Error("The clip is no longer on this device");
+  return {
+    size: info.size,
+    read: async (offset, length) =>
+      base64ToBytes(
+        await FileSystem.readAsStringAsync(videoUri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position: offset,
+          length,
+        })
+      ),
+  };
+}
+
+async function fileChecksum(source: ChunkSource, signal?: AbortSignal): Promise<string> {
+  let crc = 0;
+  for (let offset = 0; offset < source.size; offset += CHUNK_SIZE) {
+    if (signal?.aborted) throw new RequestCancelledError();
+    crc = crc32(await source.read(offset, Math.min(CHUNK_SIZE, source.size - offset)), crc);
+  }
+  return formatCrc32(crc);
+}
+
+/**
+ * Upload a clip in chunks, resuming `previous` when the server still has
+ * that session. The caller persists each checkpoint.
+ */
+export async function uploadInChunks(
+  api: AnalysisApi,
+  videoUri: string,
+  previous: ResumableUploadState | null,
+  { signal, onProgress, onCheckpoint }: ChunkedUploadOptions = {}
+): Promise<AcceptedUpload> {
+  const source = await openChunkSource(videoUri);
+  const resumable = previous && previous.fileSize === source.size ? previous : null;
+  const checksum = resumable?.checksum ?? (await fileChecksum(source, signal));
+
+  let uploadId: string | null = null;
+  let offset = 0;
+  if (resumable) {
+    try {
+      offset = await api.getUploadOffset(resumable.uploadId, signal);
+      uploadId = resumable.uploadId;
+    } catch (error) {
+      // The server dropped the session, e.g. after a restart; start a new one
+      if (!(error instanceof NotFoundError)) throw error;
+    }
+  }
+
+  if (!uploadId) {
+    const { fileName, mimeType } = videoFileType(videoUri);
+    ({ uploadId, offset } = await api.initUpload(
+      { fileName, mimeType, size: source.size, checksum, chunkSize: CHUNK_SIZE },
+      signal
+    ));
+  }
+
+  const checkpoint = () => onCheckpoint?.({ uploadId: uploadId!, uploadedBytes: offset, fileSize: source.size, checksum });
+  await checkpoint();
+  onProgress?.(offset, source.size);
+
+  while (offset < source.size) {
+    const end = Math.min(offset + CHUNK_SIZE, source.size);
+    const bytes = await source.read(offset, end - offset);
+    let next: number;
+    try {
+      next = await api.putChunk(uploadId, bytes.buffer as ArrayBuffer, offset, source.size, signal);
+      if (next <= offset) throw new Error("The server did not acknowledge the chunk");
+    } catch (error) {
+      // Out of sync with the server: continue from its offset
+      if (!(error instanceof OffsetConflictError) || error.offset === offset) throw error;
+      next = error.offset;
+    }
+
+    offset = Math.min(next, source.size);
+    await checkpoint();
+    onProgress?.(offset, source.size);
+  }
+
+  return api.finalizeUpload(uploadId, checksum, signal);
+}
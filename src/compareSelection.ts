@@ -0,0 +1,22 @@
+// src/compareSelection.ts
+// Throw pinned as the baseline for the compare screen. Kept in memory: it only
+// needs to survive navigation between two feedback screens.
+import { AnalysisResult } from "@/components/AIAnalysisEngine";
+
+export interface ComparedThrow {
+  label: string;
+  videoUri: string;
+  results: AnalysisResult;
+}
+
+let pinnedThrow: ComparedThrow | null = null;
+
+export const getPinnedThrow = (): ComparedThrow | null => pinnedThrow;
+
+export const pinThrow = (throwData: ComparedThrow) => {
+  pinnedThrow = throwData;
+};
+
+export const clearPinnedThrow = () => {
+  pinnedThrow = null;
+};
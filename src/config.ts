@@ -3,3 +3,10 @@ import { Platform } from "react-native";
 
 
 export const BASE_URL = "https://scurvily-summitless-orlando.ngrok-free.dev";
+
+// On-device models (TF.js graph models, loaded on first engine initialization)
+export const POSE_LANDMARK_MODEL_URL = "https://tfhub.dev/mediapipe/tfjs-model/blazepose_3d/landmark/full/2";
+export const PERSON_DETECTOR_MODEL_URL = "https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json";
+// CNN-BiGRU-Attention technique classifier, exported as a TF.js graph model by the
+// backend; fetched from the active server profile
+export const TECHNIQUE_MODEL_PATH = "/models/technique/model.json";
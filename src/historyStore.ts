@@ -0,0 +1,169 @@
+// src/historyStore.ts
+// Analyzed throws, newest first. AsyncStorage holds a small index; the pose
+// frames of each throw and a copy of its video live in the document
+// directory, so the index stays well under Android's AsyncStorage limits and
+// history survives cache pruning.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import { AnalysisResult, PoseFrame } from "@/components/AIAnalysisEngine";
+import { ThrowingHand } from "@/components/JointRoles";
+
+const HISTORY_KEY = "javelin.history.v2";
+const LEGACY_HISTORY_KEY = "javelin.history.v1"; // whole results, poses included
+const HISTORY_DIR = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}history/` : null;
+
+// Snapshot of the athlete at analysis time, so entries stay readable if the profile is deleted
+export interface AthleteTag {
+  id: string;
+  name: string;
+  throwingHand?: ThrowingHand;
+}
+
+export interface HistoryEntry {
+  id: string;
+  result: AnalysisResult; // poseData is only filled in by loadHistoryResult
+  videoUri: string; // where the analyzed video was served from
+  localVideoUri?: string; // copy kept on the device, preferred for playback
+  createdAt: number; // ms since epoch
+  athlete: AthleteTag | null;
+  sessionId?: string | null; // training session the throw was recorded in
+  savedToGallery?: boolean; // auto-saved to the media library
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id" | "createdAt" | "localVideoUri" | "savedToGallery">;
+
+const generateId = () => `throw_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+const posesPath = (id: string): string | null => (HISTORY_DIR ? `${HISTORY_DIR}${id}.poses.json` : null);
+
+// Read-modify-write of the index runs one change at a time, so concurrent
+// updates to different fields of an entry do not overwrite each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task);
+  writeQueue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+/** Write the pose frames to their own file and return the entry without them */
+async function storePoses(entry: HistoryEntry): Promise<HistoryEntry> {
+  const path = posesPath(entry.id);
+  if (!path || !HISTORY_DIR) return entry; // web: no document directory, poses stay inline
+  await FileSystem.makeDirectoryAsync(HISTORY_DIR, { intermediates: true }).catch(() => {});
+  await FileSystem.writeAsStringAsync(path, JSON.stringify(entry.result.poseData));
+  return { ...entry, result: { ...entry.result, poseData: [] } };
+}
+
+async function writeHistory(entries: HistoryEntry[]): Promise<void> {
+  await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+}
+
+// Move a history saved by an older version into the index and pose files
+async function migrateLegacyHistory(): Promise<HistoryEntry[] | null> {
+  const raw = await AsyncStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!raw) return null;
+  const entries = await Promise.all((JSON.parse(raw) as HistoryEntry[]).map(storePoses));
+  await writeHistory(entries);
+  await AsyncStorage.removeItem(LEGACY_HISTORY_KEY);
+  return entries;
+}
+
+/**
+ * All entries without their pose frames. Storage errors reject rather than
+ * look like an empty history.
+ */
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const raw = await AsyncStorage.getItem(HISTORY_KEY);
+  return raw ? (JSON.parse(raw) as HistoryEntry[]) : runExclusive(readHistory);
+}
+
+// Only called from inside runExclusive
+async function readHistory(): Promise<HistoryEntry[]> {
+  const raw = await AsyncStorage.getItem(HISTORY_KEY);
+  if (raw) return JSON.parse(raw) as HistoryEntry[];
+  return (await migrateLegacyHistory()) ?? [];
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | null> {
+  const entries = await loadHistory();
+  return entries.find(entry => entry.id === id) ?? null;
+}
+
+/** The entry's full result, pose frames included */
+export async function loadHistoryResult(entry: HistoryEntry): Promise<AnalysisResult> {
+  const path = posesPath(entry.id);
+  if (!path || entry.result.poseData.length > 0) return entry.result;
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) return entry.result;
+  const poseData = JSON.parse(await FileSystem.readAsStringAsync(path)) as PoseFrame[];
+  return { ...entry.result, poseData };
+}
+
+export async function addHistoryEntry(entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const saved: HistoryEntry = { ...entry, id: generateId(), createdAt: Date.now() };
+  const stored = await storePoses(saved);
+  await runExclusive(async () => {
+    const entries = await readHistory();
+    await writeHistory([stored, ...entries]);
+  });
+  return saved;
+}
+
+export function updateHistoryEntry(
+  id: string,
+  changes: Partial<Omit<HistoryEntry, "id" | "result">>
+): Promise<HistoryEntry | null> {
+  return runExclusive(async () => {
+    const entries = await readHistory();
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index < 0) return null;
+
+    entries[index] = { ...entries[index], ...changes };
+    await writeHistory(entries);
+    return entries[index];
+  });
+}
+
+/**
+ * Copy a downloaded video next to the history so the entry can be replayed
+ * offline. Does nothing if the entry already has a local copy.
+ */
+export async function keepHistoryVideo(id: string, sourceUri: string): Promise<void> {
+  const entry = await getHistoryEntry(id);
+  if (!entry || entry.localVideoUri) return;
+
+  const extension = sourceUri.split("?")[0].split(".").pop() || "mp4";
+  if (!HISTORY_DIR) return;
+  const localVideoUri = `${HISTORY_DIR}${id}.${extension}`;
+  await FileSystem.makeDirectoryAsync(HISTORY_DIR, { intermediates: true }).catch(() => {});
+  await FileSystem.copyAsync({ from: sourceUri, to: localVideoUri });
+  await updateHistoryEntry(id, { localVideoUri });
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const entry = await runExclusive(async () => {
+    const entries = await readHistory();
+    const found = entries.find(item => item.id === id);
+    if (found) await writeHistory(entries.filter(item => item.id !== id));
+    return found;
+  });
+  if (!entry) return;
+
+  const files = [entry.localVideoUri, posesPath(id)].filter((uri): uri is string => !!uri);
+  await Promise.all(files.map(uri =>
+    FileSystem.deleteAsync(uri, { idempotent: true }).catch(error =>
+      console.warn("Failed to delete history files:", error)
+    )
+  ));
+}
+
+/** Video to play for an entry: the local copy when present */
+export const historyVideoUri = (entry: HistoryEntry): string => entry.localVideoUri ?? entry.videoUri;
+
+/** Route params for the feedback screen of a saved throw */
+export const historyFeedbackParams = async (entry: HistoryEntry): Promise<Record<string, string>> => ({
+  videoUri: historyVideoUri(entry),
+  results: JSON.stringify(await loadHistoryResult(entry)),
+  historyId: entry.id,
+});
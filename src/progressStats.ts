@@ -0,0 +1,108 @@
+// src/progressStats.ts
+// Aggregations of throw history for the progress dashboard
+import { MetricKey } from "@/components/BiomechanicsMetrics";
+import { isBlockErrorPrediction } from "@/components/Handedness";
+import { HistoryEntry } from "@/src/historyStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Left- and right-leg block errors are charted as one class
+export type ProgressClass = "Good Technique" | "Low Arm" | "Leg Block" | "Both Errors";
+
+export const PROGRESS_CLASSES: ProgressClass[] = ["Good Technique", "Low Arm", "Leg Block", "Both Errors"];
+
+export const PROGRESS_CLASS_COLORS: Record<ProgressClass, string> = {
+  "Good Technique": "#10b981",
+  "Low Arm": "#f59e0b",
+  "Leg Block": "#ef4444",
+  "Both Errors": "#7f1d1d",
+};
+
+export type DateRange = "7d" | "30d" | "90d" | "all";
+
+export const DATE_RANGES: { value: DateRange; label: string; days: number | null }[] = [
+  { value: "7d", label: "7 days", days: 7 },
+  { value: "30d", label: "30 days", days: 30 },
+  { value: "90d", label: "90 days", days: 90 },
+  { value: "all", label: "All", days: null },
+];
+
+export interface ProgressFilter {
+  athleteId: string | null; // null means every athlete
+  range: DateRange;
+}
+
+export interface ProbabilityMixPoint {
+  createdAt: number;
+  mix: Record<ProgressClass, number>;
+}
+
+export interface SessionShare {
+  key: string;
+  label: string;
+  startedAt: number;
+  throwCount: number;
+  goodShare: number; // 0..1
+}
+
+export interface MetricPoint {
+  createdAt: number;
+  value: number;
+}
+
+const toProgressClass = (prediction: string): ProgressClass | null => {
+  if (isBlockErrorPrediction(prediction)) return "Leg Block";
+  return (PROGRESS_CLASSES as string[]).includes(prediction) ? (prediction as ProgressClass) : null;
+};
+
+/** Entries matching the filter, oldest first */
+export function filterHistory(entries: HistoryEntry[], filter: ProgressFilter, now = Date.now()): HistoryEntry[] {
+  const days = DATE_RANGES.find(range => range.value === filter.range)?.days ?? null;
+  const since = days === null ? -Infinity : now - days * DAY_MS;
+  return entries
+    .filter(entry => entry.createdAt >= since)
+    .filter(entry => filter.athleteId === null || entry.athlete?.id === filter.athleteId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Class probabilities of each throw, block-error classes merged */
+export function probabilityMixSeries(entries: HistoryEntry[]): ProbabilityMixPoint[] {
+  return entries.map(entry => {
+    const mix: Record<ProgressClass, number> = { "Good Technique": 0, "Low Arm": 0, "Leg Block": 0, "Both Errors": 0 };
+    Object.entries(entry.result.probabilities ?? {}).forEach(([prediction, probability]) => {
+      const progressClass = toProgressClass(prediction);
+      if (progressClass) mix[progressClass] += probability;
+    });
+    return { createdAt: entry.createdAt, mix };
+  });
+}
+
+/**
+ * Share of 'Good Technique' results per training session; throws recorded
+ * outside a session are grouped by calendar day
+ */
+export function goodTechniqueShareBySession(entries: HistoryEntry[]): SessionShare[] {
+  const sessions = new Map<string, HistoryEntry[]>();
+  entries.forEach(entry => {
+    const key = entry.sessionId ?? new Date(entry.createdAt).toDateString();
+    sessions.set(key, [...(sessions.get(key) ?? []), entry]);
+  });
+
+  return Array.from(sessions, ([key, throws]) => ({
+    key,
+    label: new Date(throws[0].createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+    startedAt: throws[0].createdAt,
+    throwCount: throws.length,
+    goodShare: throws.filter(entry => entry.result.prediction === "Good Technique").length / throws.length,
+  }));
+}
+
+/** Values of one metric over time; throws without it are skipped */
+export function metricSeries(entries: HistoryEntry[], key: MetricKey): MetricPoint[] {
+  return entries.flatMap(entry => {
+    const value = entry.result.metrics?.[key];
+    return value === null || value === undefined || !Number.isFinite(value)
+      ? []
+      : [{ createdAt: entry.createdAt, value }];
+  });
+}
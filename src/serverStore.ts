@@ -0,0 +1,108 @@
+// src/serverStore.ts
+// Analysis server profiles and the active profile, persisted in AsyncStorage.
+// Auth tokens are kept out of it, in the Keychain / Keystore via SecureStore;
+// on web there is no secure storage and they stay in the (unencrypted) profile
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { BASE_URL } from "@/src/config";
+
+const SERVERS_KEY = "javelin.servers.v1";
+const ACTIVE_SERVER_KEY = "javelin.activeServer.v1";
+const TOKEN_KEY_PREFIX = "javelin.serverToken.";
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string; // no trailing slash
+  authToken: string | null; // sent as a bearer token
+  headers: Record<string, string>; // extra headers sent with every request
+}
+
+export type ServerProfileDraft = Omit<ServerProfile, "id">;
+
+// Profiles saved before tokens moved to SecureStore still carry theirs
+type StoredServerProfile = Omit<ServerProfile, "authToken"> & { authToken?: string | null };
+
+// Used until the user adds a profile of their own
+export const DEFAULT_SERVER_PROFILE: ServerProfile = {
+  id: "default",
+  name: "Default",
+  baseUrl: BASE_URL,
+  authToken: null,
+  headers: { "ngrok-skip-browser-warning": "true" },
+};
+
+const generateId = () => `server_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+export const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, "");
+
+const hasSecureStore = Platform.OS !== "web";
+const tokenKey = (id: string) => `${TOKEN_KEY_PREFIX}${id}`;
+
+export async function loadServerProfiles(): Promise<ServerProfile[]> {
+  let stored: StoredServerProfile[];
+  try {
+    const raw = await AsyncStorage.getItem(SERVERS_KEY);
+    stored = raw ? (JSON.parse(raw) as StoredServerProfile[]) : [];
+  } catch (error) {
+    console.warn("Failed to read server profiles:", error);
+    return [DEFAULT_SERVER_PROFILE];
+  }
+  if (stored.length === 0) return [DEFAULT_SERVER_PROFILE];
+  if (!hasSecureStore) return stored.map(profile => ({ ...profile, authToken: profile.authToken ?? null }));
+
+  const profiles = await Promise.all(stored.map(async profile => ({
+    ...profile,
+    authToken: profile.authToken ?? (await SecureStore.getItemAsync(tokenKey(profile.id))),
+  })));
+  if (stored.some(profile => profile.authToken)) {
+    await writeServerProfiles(profiles).catch(error => console.warn("Failed to move server tokens:", error));
+  }
+  return profiles;
+}
+
+async function writeServerProfiles(profiles: ServerProfile[]): Promise<void> {
+  if (!hasSecureStore) {
+    await AsyncStorage.setItem(SERVERS_KEY, JSON.stringify(profiles));
+    return;
+  }
+  // Tokens first, so a failed write never leaves a profile without its token
+  await Promise.all(profiles.map(profile =>
+    profile.authToken
+      ? SecureStore.setItemAsync(tokenKey(profile.id), profile.authToken)
+      : SecureStore.deleteItemAsync(tokenKey(profile.id))
+  ));
+  const stored: StoredServerProfile[] = profiles.map(({ authToken: _authToken, ...profile }) => profile);
+  await AsyncStorage.setItem(SERVERS_KEY, JSON.stringify(stored));
+}
+
+export async function saveServerProfile(draft: ServerProfileDraft, id?: string): Promise<ServerProfile> {
+  const profiles = await loadServerProfiles();
+  const profile: ServerProfile = { ...draft, baseUrl: normalizeBaseUrl(draft.baseUrl), id: id ?? generateId() };
+  const index = profiles.findIndex(item => item.id === profile.id);
+  if (index >= 0) profiles[index] = profile;
+  else profiles.push(profile);
+  await writeServerProfiles(profiles);
+  return profile;
+}
+
+/** Delete a profile; removing the last one restores the default */
+export async function deleteServerProfile(id: string): Promise<void> {
+  const profiles = await loadServerProfiles();
+  await writeServerProfiles(profiles.filter(profile => profile.id !== id));
+  if (hasSecureStore) await SecureStore.deleteItemAsync(tokenKey(id));
+  if ((await AsyncStorage.getItem(ACTIVE_SERVER_KEY)) === id) {
+    await AsyncStorage.removeItem(ACTIVE_SERVER_KEY);
+  }
+}
+
+/** The selected profile, falling back to the first one */
+export async function getActiveServerProfile(): Promise<ServerProfile> {
+  const [profiles, id] = await Promise.all([loadServerProfiles(), AsyncStorage.getItem(ACTIVE_SERVER_KEY)]);
+  return profiles.find(profile => profile.id === id) ?? profiles[0];
+}
+
+export async function setActiveServerProfileId(id: string): Promise<void> {
+  await AsyncStorage.setItem(ACTIVE_SERVER_KEY, id);
+}
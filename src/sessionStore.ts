@@ -0,0 +1,78 @@
+// src/sessionStore.ts
+// Training sessions and the active session, persisted in AsyncStorage.
+// Throws join a session through HistoryEntry.sessionId.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const SESSIONS_KEY = "javelin.sessions.v1";
+const ACTIVE_SESSION_KEY = "javelin.activeSession.v1";
+
+export interface TrainingSession {
+  id: string;
+  name: string;
+  startedAt: number; // ms since epoch
+  endedAt: number | null; // null while the session is running
+}
+
+const generateId = () => `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+export async function loadSessions(): Promise<TrainingSession[]> {
+  try {
+    const raw = await AsyncStorage.getItem(SESSIONS_KEY);
+    return raw ? (JSON.parse(raw) as TrainingSession[]) : [];
+  } catch (error) {
+    console.warn("Failed to read sessions:", error);
+    return [];
+  }
+}
+
+async function writeSessions(sessions: TrainingSession[]): Promise<void> {
+  await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+}
+
+export async function getSession(id: string): Promise<TrainingSession | null> {
+  const sessions = await loadSessions();
+  return sessions.find(session => session.id === id) ?? null;
+}
+
+export async function getActiveSession(): Promise<TrainingSession | null> {
+  const id = await AsyncStorage.getItem(ACTIVE_SESSION_KEY);
+  return id ? getSession(id) : null;
+}
+
+/** Start a session and make it active, ending any session still running */
+export async function startSession(name?: string): Promise<TrainingSession> {
+  const current = await getActiveSession();
+  if (current) await endSession(current.id);
+
+  const startedAt = Date.now();
+  const session: TrainingSession = {
+    id: generateId(),
+    name: name?.trim() || `Practice ${new Date(startedAt).toLocaleDateString()}`,
+    startedAt,
+    endedAt: null,
+  };
+  await writeSessions([session, ...(await loadSessions())]);
+  await AsyncStorage.setItem(ACTIVE_SESSION_KEY, session.id);
+  return session;
+}
+
+export async function endSession(id: string): Promise<TrainingSession | null> {
+  const sessions = await loadSessions();
+  const index = sessions.findIndex(session => session.id === id);
+  if (index < 0) return null;
+
+  sessions[index] = { ...sessions[index], endedAt: sessions[index].endedAt ?? Date.now() };
+  await writeSessions(sessions);
+  if ((await AsyncStorage.getItem(ACTIVE_SESSION_KEY)) === id) {
+    await AsyncStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+  return sessions[index];
+}
+
+/** Delete a session; its throws stay in history */
+export async function deleteSession(id: string): Promise<void> {
+  await writeSessions((await loadSessions()).filter(session => session.id !== id));
+  if ((await AsyncStorage.getItem(ACTIVE_SESSION_KEY)) === id) {
+    await AsyncStorage.removeItem(ACTIVE_SESSION_KEY);
+  }
+}
@@ -0,0 +1,78 @@
+// src/sessionSummary.ts
+// Summary and CSV export of the throws in a training session
+import { formatMetric, METRIC_DEFINITIONS, METRIC_KEYS } from "@/components/BiomechanicsMetrics";
+import { HistoryEntry } from "@/src/historyStore";
+import { TrainingSession } from "@/src/sessionStore";
+
+export interface SessionSummary {
+  throwCount: number;
+  countsByPrediction: Record<string, number>;
+  bestThrow: HistoryEntry | null; // highest 'Good Technique' probability
+  worstThrow: HistoryEntry | null; // lowest 'Good Technique' probability
+  mostFrequentError: { prediction: string; count: number } | null;
+}
+
+const goodTechniqueScore = (entry: HistoryEntry): number =>
+  entry.result.probabilities?.["Good Technique"] ??
+  (entry.result.prediction === "Good Technique" ? entry.result.confidence : 0);
+
+export function summarizeSession(entries: HistoryEntry[]): SessionSummary {
+  const countsByPrediction: Record<string, number> = {};
+  entries.forEach(entry => {
+    countsByPrediction[entry.result.prediction] = (countsByPrediction[entry.result.prediction] ?? 0) + 1;
+  });
+
+  const ranked = [...entries].sort((a, b) => goodTechniqueScore(b) - goodTechniqueScore(a));
+  const errors = Object.entries(countsByPrediction)
+    .filter(([prediction]) => prediction !== "Good Technique")
+    .sort((a, b) => b[1] - a[1]);
+
+  return {
+    throwCount: entries.length,
+    countsByPrediction,
+    bestThrow: ranked[0] ?? null,
+    worstThrow: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+    mostFrequentError: errors.length > 0 ? { prediction: errors[0][0], count: errors[0][1] } : null,
+  };
+}
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: (string | number)[]) => cells.map(csvCell).join(",");
+
+/**
+ * CSV report: a summary block, a blank row, then one row per throw
+ */
+export function sessionReportCsv(session: TrainingSession, entries: HistoryEntry[], summary: SessionSummary): string {
+  const describe = (entry: HistoryEntry | null) =>
+    entry ? `${new Date(entry.createdAt).toLocaleTimeString()} ${entry.result.prediction}` : "";
+
+  const rows = [
+    csvRow(["Session", session.name]),
+    csvRow(["Started", new Date(session.startedAt).toLocaleString()]),
+    csvRow(["Ended", session.endedAt ? new Date(session.endedAt).toLocaleString() : "In progress"]),
+    csvRow(["Throws", summary.throwCount]),
+    ...Object.entries(summary.countsByPrediction).map(([prediction, count]) => csvRow([prediction, count])),
+    csvRow(["Best throw", describe(summary.bestThrow)]),
+    csvRow(["Worst throw", describe(summary.worstThrow)]),
+    csvRow([
+      "Most frequent error",
+      summary.mostFrequentError ? `${summary.mostFrequentError.prediction} (${summary.mostFrequentError.count})` : "None",
+    ]),
+    "",
+    csvRow(["Time", "Athlete", "Prediction", "Confidence", ...METRIC_KEYS.map(key => METRIC_DEFINITIONS[key].label)]),
+    ...[...entries]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(entry => csvRow([
+        new Date(entry.createdAt).toLocaleTimeString(),
+        entry.athlete?.name ?? "",
+        entry.result.prediction,
+        `${Math.round(entry.result.confidence * 100)}%`,
+        ...METRIC_KEYS.map(key => (entry.result.metrics ? formatMetric(key, entry.result.metrics[key]) : "")),
+      ])),
+  ];
+  return rows.join("\n");
+}
@@ -0,0 +1,67 @@
+// src/settingsStore.ts
+// App settings persisted in AsyncStorage, plus the capture and analysis
+// parameters derived from them
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { VideoQuality } from "expo-camera";
+import { DEFAULT_TARGET_FPS, HIGH_QUALITY_TARGET_FPS, ProcessVideoOptions } from "@/components/AIAnalysisEngine";
+
+const SETTINGS_KEY = "javelin.settings.v1";
+
+// Where clips are analyzed; "auto" picks per clip, see src/analysisMode.ts
+export type AnalysisMode = "server" | "on-device" | "auto";
+
+// Clips up to this long are analyzed on the device in auto mode
+export const AUTO_ON_DEVICE_MAX_DURATION_MS = 10000;
+
+export const ANALYSIS_MODES: { value: AnalysisMode; label: string }[] = [
+  { value: "server", label: "Server" },
+  { value: "on-device", label: "On-device" },
+  { value: "auto", label: "Auto" },
+];
+
+export interface AppSettings {
+  notificationsEnabled: boolean; // alert when an analysis completes
+  autoSaveEnabled: boolean; // save analyzed videos to the gallery
+  highQualityEnabled: boolean; // higher recording quality and analysis frame rate
+  analysisMode: AnalysisMode;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  notificationsEnabled: true,
+  autoSaveEnabled: true,
+  highQualityEnabled: false,
+  analysisMode: "server",
+};
+
+export interface CaptureSettings {
+  videoQuality: VideoQuality;
+  videoBitrate: number; // bits per second
+}
+
+export async function loadSettings(): Promise<AppSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    // Merge so settings added in later versions get their defaults
+    return raw ? { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<AppSettings>) } : { ...DEFAULT_SETTINGS };
+  } catch (error) {
+    console.warn("Failed to read settings:", error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export async function updateSettings(changes: Partial<AppSettings>): Promise<AppSettings> {
+  const settings = { ...(await loadSettings()), ...changes };
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+/** Camera recording parameters for the current quality setting */
+export const captureSettingsFor = (settings: AppSettings): CaptureSettings =>
+  settings.highQualityEnabled
+    ? { videoQuality: "1080p", videoBitrate: 8_000_000 }
+    : { videoQuality: "480p", videoBitrate: 600_000 };
+
+/** Engine options for the current quality setting */
+export const analysisOptionsFor = (settings: AppSettings): Pick<ProcessVideoOptions, "targetFps"> => ({
+  targetFps: settings.highQualityEnabled ? HIGH_QUALITY_TARGET_FPS : DEFAULT_TARGET_FPS,
+});
@@ -0,0 +1,146 @@
+// src/statusTransport.ts
+// Processing status updates for an uploaded clip. A WebSocket at
+// `<statusUrl>/ws` is preferred; when it cannot be opened or drops, the
+// status URL is polled with exponential backoff. Both carry the same JSON:
+//   {status: "processing" | "completed" | "failed", stage?, progress? (0..1),
+//    message?, result?, video_url?, error?}
+// and are validated by parseProcessingStatus in src/api.ts.
+import {
+  AnalysisApi, AuthError, InvalidResponseError, NotFoundError, parseProcessingStatus, ProcessingStatus,
+  RequestCancelledError
+} from "@/src/api";
+import { createApiClient, serverHeaders, serverUrl } from "@/src/apiClient";
+import { getActiveServerProfile, ServerProfile } from "@/src/serverStore";
+
+const SOCKET_OPEN_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 2000;
+const POLL_MAX_INTERVAL_MS = 30000;
+
+export type StatusTransport = "websocket" | "polling";
+
+export interface StatusListener {
+  onUpdate: (update: ProcessingStatus) => void;
+  onTransport?: (transport: StatusTransport) => void;
+  onConnectionIssue?: (message: string | null) => void; // null once updates flow again
+  onFatal: (message: string) => void; // the status can no longer be followed
+}
+
+// React Native's WebSocket takes request headers as a third argument
+type NativeWebSocket = new (
+  url: string,
+  protocols?: string | string[] | null,
+  options?: { headers: Record<string, string> }
+) => WebSocket;
+
+export const pollDelayMs = (failures: number): number =>
+  Math.min(POLL_INTERVAL_MS * 2 ** failures, POLL_MAX_INTERVAL_MS);
+
+const socketUrl = (profile: ServerProfile, statusUrl: string): string =>
+  serverUrl(profile, `${statusUrl.replace(/\/+$/, "")}/ws`).replace(/^http/i, "ws");
+
+/**
+ * Follows one upload until it completes or fails. Call `close()` when the
+ * screen goes away.
+ */
+export class StatusWatcher {
+  private profile: ServerProfile | null = null;
+  private socket: WebSocket | null = null;
+  private controller: AbortController | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private done = false;
+
+  constructor(private readonly statusUrl: string, private readonly listener: StatusListener) {}
+
+  async start(): Promise<void> {
+    this.profile = await getActiveServerProfile();
+    if (this.done) return;
+    if (typeof WebSocket === "undefined") this.startPolling();
+    else this.openSocket(this.profile);
+  }
+
+  close(): void {
+    this.done = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.controller?.abort();
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private openSocket(profile: ServerProfile): void {
+    let opened = false;
+    const socket = new (WebSocket as unknown as NativeWebSocket)(socketUrl(profile, this.statusUrl), null, {
+      headers: serverHeaders(profile),
+    });
+    this.socket = socket;
+    const openTimeout = setTimeout(() => {
+      if (!opened) socket.close();
+    }, SOCKET_OPEN_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      opened = true;
+      clearTimeout(openTimeout);
+      this.listener.onTransport?.("websocket");
+      this.listener.onConnectionIssue?.(null);
+    };
+    socket.onmessage = event => {
+      let data: unknown;
+      try {
+        data = JSON.parse(String(event.data));
+      } catch {
+        return; // Ignore frames that are not JSON, e.g. keep-alives
+      }
+      try {
+        this.deliver(parseProcessingStatus(data));
+      } catch (error) {
+        this.fatal((error as InvalidResponseError).message);
+      }
+    };
+    // Unsupported or dropped sockets fall back to polling
+    socket.onclose = () => {
+      clearTimeout(openTimeout);
+      this.socket = null;
+      if (!this.done) this.startPolling();
+    };
+  }
+
+  private startPolling(): void {
+    this.listener.onTransport?.("polling");
+    this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.done || !this.profile) return;
+    this.controller = new AbortController();
+    try {
+      const api = new AnalysisApi(createApiClient(this.profile));
+      const update = await api.getStatus(this.statusUrl, this.controller.signal);
+      if (this.failures > 0) this.listener.onConnectionIssue?.(null);
+      this.failures = 0;
+      this.deliver(update);
+    } catch (error) {
+      if (this.done || error instanceof RequestCancelledError) return;
+      // Lost uploads, rejected credentials and unreadable responses will not recover by retrying
+      if (error instanceof NotFoundError) return this.fatal("The server no longer has this upload.");
+      if (error instanceof AuthError) return this.fatal("The server rejected the request. Check the auth token in Settings.");
+      if (error instanceof InvalidResponseError) return this.fatal(error.message);
+      this.failures++;
+      this.listener.onConnectionIssue?.("Connection lost, retrying...");
+    }
+    if (!this.done) this.timer = setTimeout(() => this.poll(), pollDelayMs(this.failures));
+  }
+
+  private fatal(message: string): void {
+    this.close();
+    this.listener.onFatal(message);
+  }
+
+  private deliver(update: ProcessingStatus): void {
+    if (this.done) return;
+    if (update.status !== "processing") this.close();
+    this.listener.onUpdate(update);
+  }
+}
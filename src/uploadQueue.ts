@@ -0,0 +1,480 @@
+// src/uploadQueue.ts
+// Persistent queue of clips waiting to be uploaded or analyzed. Clips are
+// copied into the document directory so they survive restarts; failed
+// uploads are retried with exponential backoff while the app is running, and
+// right away when the connection returns, resuming from the last chunk the
+// server acknowledged. While the app is closed, src/backgroundUploads.ts
+// drains the queue whenever the OS runs its background fetch task
+import { Alert, AppState, AppStateStatus, Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import * as FileSystem from "expo-file-system";
+import { AnalysisResult } from "@/components/AIAnalysisEngine";
+import { NormalizedPoint } from "@/components/PersonTracker";
+import {
+  AcceptedUpload, AnalysisApi, ApiError, ChecksumMismatchError, InvalidResponseError, NotFoundError,
+  RequestCancelledError, ServerError, UnsupportedEndpointError
+} from "@/src/api";
+import { getAnalysisApi, serverUrl } from "@/src/apiClient";
+import { ResumableUploadState, uploadInChunks, videoFileType } from "@/src/chunkedUpload";
+import { athleteTag, getAthlete } from "@/src/athleteStore";
+import { addHistoryEntry } from "@/src/historyStore";
+import { loadSettings } from "@/src/settingsStore";
+
+const QUEUE_KEY = "javelin.uploadQueue.v1";
+const UPLOAD_DIR = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}uploads/` : null;
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_SERVER_ATTEMPTS = 5; // network errors retry indefinitely
+
+export type UploadJobStatus = "pending" | "uploading" | "processing" | "failed";
+
+export interface UploadJob {
+  id: string;
+  videoUri: string; // local copy of the clip
+  createdAt: number;
+  status: UploadJobStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // when a pending job is retried
+  lastError: string | null;
+  uploadProgress: number; // 0..100 while uploading
+  resumable: ResumableUploadState | null; // chunked upload session to resume
+  fileId: string | null; // set once the server accepted the upload
+  statusUrl: string | null;
+  throwerPoint: NormalizedPoint | null;
+  athleteId: string | null;
+  sessionId: string | null;
+}
+
+export type NewUploadJob = Pick<UploadJob, "videoUri" | "throwerPoint" | "athleteId" | "sessionId">;
+
+type QueueListener = (jobs: UploadJob[]) => void;
+
+const generateId = () => `upload_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+/** Exponential backoff with ±20% jitter */
+export const retryDelayMs = (attempts: number): number => {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Offline, unreachable and 408/429/5xx are transient, as are local hiccups such as file reads
+const isTransientError = (error: unknown): boolean => !(error instanceof ApiError) || error.transient;
+
+const errorMessage = (error: unknown): string => (error instanceof Error && error.message) || "Upload failed";
+
+/** Route params for the processing screen of an uploaded job */
+export const processingParams = (job: UploadJob): Record<string, string> => ({
+  videoUri: job.videoUri,
+  fileId: job.fileId ?? "",
+  statusUrl: job.statusUrl ?? "",
+  jobId: job.id,
+  ...(job.throwerPoint && { throwerX: String(job.throwerPoint.x), throwerY: String(job.throwerPoint.y) }),
+});
+
+// Single multipart request, for servers without the chunked protocol
+async function buildUploadForm(videoUri: string): Promise<FormData> {
+  const formData = new FormData();
+  const { fileName, mimeType } = videoFileType(videoUri);
+
+  if (Platform.OS === "web") {
+    const response = await fetch(videoUri);
+    formData.append("video", await response.blob(), fileName);
+  } else {
+    formData.append("video", {
+      uri: Platform.OS === "android" ? videoUri : videoUri.replace("file://", ""),
+      type: mimeType,
+      name: fileName,
+    } as any);
+  }
+  return formData;
+}
+
+// Keep the clip even if the picker or camera cache is cleared
+async function keepClip(id: string, sourceUri: string): Promise<string> {
+  if (!UPLOAD_DIR || Platform.OS === "web") return sourceUri;
+  const extension = sourceUri.split("?")[0].split(".").pop()?.toLowerCase() || "mp4";
+  const target = `${UPLOAD_DIR}${id}.${extension}`;
+  await FileSystem.makeDirectoryAsync(UPLOAD_DIR, { intermediates: true }).catch(() => {});
+  await FileSystem.copyAsync({ from: sourceUri, to: target });
+  return target;
+}
+
+async function discardClip(uri: string): Promise<void> {
+  if (UPLOAD_DIR && uri.startsWith(UPLOAD_DIR)) {
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+  }
+}
+
+export class UploadQueue {
+  private jobs: UploadJob[] = [];
+  private listeners = new Set<QueueListener>();
+  private controllers = new Map<string, AbortController>();
+  private active = new Set<string>(); // jobs with a request in flight
+  private watched = new Set<string>(); // jobs whose status a screen is polling
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private loading: Promise<void> | null = null;
+  private ticking = false;
+  private worker: Promise<void> = Promise.resolve();
+  private online: boolean | null = null;
+
+  /** Load the persisted queue and resume work; safe to call more than once */
+  start(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+      AppState.addEventListener("change", this.handleAppStateChange);
+      NetInfo.addEventListener(this.handleConnectivityChange);
+    }
+    return this.loading;
+  }
+
+  getJobs(): UploadJob[] {
+    return this.jobs;
+  }
+
+  /**
+   * Upload every waiting clip now, ignoring the backoff, and check on the
+   * ones the server is processing. Resolves once the pass is done, with
+   * whether there was anything to do.
+   */
+  async drain(): Promise<boolean> {
+    await this.start();
+    if (!this.jobs.some(job => job.status === "pending" || job.status === "processing")) return false;
+    const now = Date.now();
+    this.jobs = this.jobs.map(job => (job.status === "pending" ? { ...job, nextAttemptAt: now } : job));
+    try {
+      await this.runExclusive(() => this.runDueJobs());
+    } finally {
+      this.schedule();
+    }
+    return true;
+  }
+
+  getJob(id: string): UploadJob | null {
+    return this.jobs.find(job => job.id === id) ?? null;
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a clip and try to upload it right away. Resolves with the job after
+   * the first attempt: 'processing' on success, otherwise 'pending' (will be
+   * retried) or 'failed'.
+   */
+  async submit(newJob: NewUploadJob, onProgress?: (percent: number) => void): Promise<UploadJob> {
+    await this.start();
+    const id = generateId();
+    this.active.add(id);
+    try {
+      const job: UploadJob = {
+        ...newJob,
+        id,
+        videoUri: await keepClip(id, newJob.videoUri),
+        createdAt: Date.now(),
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: null,
+        lastError: null,
+        uploadProgress: 0,
+        resumable: null,
+        fileId: null,
+        statusUrl: null,
+      };
+      this.jobs = [job, ...this.jobs];
+      await this.persist();
+      // Waits for an upload already in flight, like the background retries do
+      return await this.runExclusive(() => this.attempt(job, onProgress));
+    } finally {
+      this.active.delete(id);
+      this.schedule();
+    }
+  }
+
+  /**
+   * Retry a failed or waiting job now. An unfinished upload resumes; one the
+   * server already accepted is uploaded again from the start.
+   */
+  async retry(id: string): Promise<void> {
+    const job = this.getJob(id);
+    if (!job || this.active.has(id)) return;
+    await this.update(id, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: null,
+      ...(job.fileId && { resumable: null, fileId: null, statusUrl: null }),
+    });
+    this.tick();
+  }
+
+  /** Drop a job; an upload in flight is aborted */
+  async cancel(id: string): Promise<void> {
+    const job = this.getJob(id);
+    if (!job) return;
+    this.controllers.get(id)?.abort();
+    this.jobs = this.jobs.filter(item => item.id !== id);
+    await this.persist();
+    await discardClip(job.videoUri);
+  }
+
+  /** A screen polls this job's status itself; the queue leaves it alone until unwatched */
+  watch(id: string): void {
+    this.watched.add(id);
+  }
+
+  unwatch(id: string): void {
+    this.watched.delete(id);
+    this.schedule();
+  }
+
+  /** Save the analyzed throw to history and drop the job. Returns the history entry id. */
+  async complete(id: string, result: AnalysisResult, videoUrl: string): Promise<string | undefined> {
+    const job = this.getJob(id);
+    if (!job) return undefined;
+
+    const athlete = job.athleteId ? await getAthlete(job.athleteId) : null;
+    const historyId = await addHistoryEntry({
+      result,
+      videoUri: videoUrl,
+      athlete: athlete ? athleteTag(athlete) : null,
+      sessionId: job.sessionId,
+    })
+      .then(entry => entry.id)
+      .catch(error => {
+        console.warn("Failed to save throw to history:", error);
+        return undefined;
+      });
+
+    this.jobs = this.jobs.filter(item => item.id !== id);
+    await this.persist();
+    await discardClip(job.videoUri);
+    return historyId;
+  }
+
+  /** Mark a job as failed, e.g. when the server reports a processing error */
+  async fail(id: string, message: string): Promise<void> {
+    await this.update(id, { status: "failed", lastError: message, nextAttemptAt: null });
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(QUEUE_KEY);
+      const stored = raw ? (JSON.parse(raw) as UploadJob[]) : [];
+      // Uploads interrupted by a restart resume from their last checkpoint
+      this.jobs = stored.map(job =>
+        job.status === "uploading" ? { ...job, status: "pending", nextAttemptAt: Date.now(), uploadProgress: 0 } : job
+      );
+    } catch (error) {
+      console.warn("Failed to read upload queue:", error);
+      this.jobs = [];
+    }
+    this.notify();
+    this.tick();
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    // Connectivity often returns while the app is in the background
+    if (state === "active") this.retryWaitingJobs();
+  };
+
+  private handleConnectivityChange = (state: NetInfoState) => {
+    const online = state.isConnected === true && state.isInternetReachable !== false;
+    const reconnected = online && this.online === false;
+    this.online = online;
+    if (reconnected) this.retryWaitingJobs();
+  };
+
+  // Skip the backoff of jobs waiting to be retried
+  private retryWaitingJobs(): void {
+    const now = Date.now();
+    this.jobs = this.jobs.map(job => (job.status === "pending" ? { ...job, nextAttemptAt: now } : job));
+    this.tick();
+  }
+
+  private async attempt(job: UploadJob, onProgress?: (percent: number) => void): Promise<UploadJob> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.active.add(job.id);
+    await this.update(job.id, { status: "uploading", uploadProgress: 0 });
+
+    try {
+      const { api } = await getAnalysisApi();
+      let accepted: AcceptedUpload;
+      try {
+        accepted = await uploadInChunks(api, job.videoUri, job.resumable ?? null, {
+          signal: controller.signal,
+          onProgress: (uploadedBytes, totalBytes) => {
+            const percent = Math.round((uploadedBytes * 100) / (totalBytes || 1));
+            onProgress?.(percent);
+            this.setProgress(job.id, percent);
+          },
+          onCheckpoint: async resumable => {
+            await this.update(job.id, { resumable });
+          },
+        });
+      } catch (error) {
+        if (!(error instanceof UnsupportedEndpointError)) throw error;
+        accepted = await this.uploadWhole(api, job, controller.signal, onProgress);
+      }
+
+      return (await this.update(job.id, {
+        status: "processing",
+        attempts: job.attempts + 1,
+        nextAttemptAt: null,
+        lastError: null,
+        resumable: null,
+        fileId: accepted.fileId,
+        statusUrl: accepted.statusUrl,
+      })) ?? job;
+    } catch (error) {
+      if (error instanceof RequestCancelledError || !this.getJob(job.id)) return { ...job, status: "failed", lastError: "Cancelled" };
+
+      const attempts = job.attempts + 1;
+      const giveUp = !isTransientError(error) || (error instanceof ServerError && attempts >= MAX_SERVER_ATTEMPTS);
+      console.warn(`Upload attempt ${attempts} failed:`, errorMessage(error));
+      return (await this.update(job.id, {
+        status: giveUp ? "failed" : "pending",
+        attempts,
+        nextAttemptAt: giveUp ? null : Date.now() + retryDelayMs(attempts),
+        lastError: errorMessage(error),
+        // A checksum mismatch means the uploaded bytes are unusable
+        ...(error instanceof ChecksumMismatchError && { resumable: null }),
+      })) ?? job;
+    } finally {
+      this.controllers.delete(job.id);
+      this.active.delete(job.id);
+    }
+  }
+
+  private async uploadWhole(
+    api: AnalysisApi,
+    job: UploadJob,
+    signal: AbortSignal,
+    onProgress?: (percent: number) => void
+  ): Promise<AcceptedUpload> {
+    return api.uploadVideo(await buildUploadForm(job.videoUri), {
+      signal,
+      onUploadProgress: progressEvent => {
+        const percent = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
+        onProgress?.(percent);
+        this.setProgress(job.id, percent);
+      },
+    });
+  }
+
+  // Background status check for uploaded jobs no screen is watching
+  private async poll(job: UploadJob): Promise<void> {
+    if (!job.statusUrl) return;
+    this.active.add(job.id);
+    try {
+      const { api, profile } = await getAnalysisApi();
+      const update = await api.getStatus(job.statusUrl);
+      if (update.status === "completed") {
+        await this.complete(job.id, update.result, serverUrl(profile, update.videoUrl));
+        const { notificationsEnabled } = await loadSettings();
+        if (notificationsEnabled) {
+          Alert.alert("Analysis complete", `${update.result.prediction} — saved to History.`);
+        }
+      } else if (update.status === "failed") {
+        await this.fail(job.id, update.error);
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        await this.fail(job.id, "The server no longer has this upload");
+      } else if (error instanceof InvalidResponseError) {
+        await this.fail(job.id, error.message);
+      }
+      // Anything else is retried on the next poll
+    } finally {
+      this.active.delete(job.id);
+    }
+  }
+
+  // Uploads and background polls run one at a time, in the order requested
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.worker.then(task);
+    this.worker = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.runExclusive(() => this.runDueJobs());
+    } finally {
+      this.ticking = false;
+      this.schedule();
+    }
+  }
+
+  private async runDueJobs(): Promise<void> {
+    const now = Date.now();
+    const due = this.jobs.filter(job =>
+      job.status === "pending" && !this.active.has(job.id) && (job.nextAttemptAt ?? 0) <= now
+    );
+    // Oldest first
+    for (const job of [...due].reverse()) {
+      const current = this.getJob(job.id);
+      if (current?.status === "pending") await this.attempt(current);
+    }
+
+    const unwatched = this.jobs.filter(job =>
+      job.status === "processing" && !this.watched.has(job.id) && !this.active.has(job.id)
+    );
+    for (const job of unwatched) await this.poll(job);
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const now = Date.now();
+    const wakeTimes = this.jobs.flatMap(job => {
+      if (this.active.has(job.id)) return [];
+      if (job.status === "pending") return [job.nextAttemptAt ?? now];
+      if (job.status === "processing" && !this.watched.has(job.id)) return [now + STATUS_POLL_INTERVAL_MS];
+      return [];
+    });
+    if (wakeTimes.length === 0) return;
+    this.timer = setTimeout(() => this.tick(), Math.max(0, Math.min(...wakeTimes) - now));
+  }
+
+  private setProgress(id: string, uploadProgress: number): void {
+    // Progress is shown live but not persisted
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, uploadProgress } : job));
+    this.notify();
+  }
+
+  private async update(id: string, changes: Partial<Omit<UploadJob, "id">>): Promise<UploadJob | null> {
+    const index = this.jobs.findIndex(job => job.id === id);
+    if (index < 0) return null;
+    const updated = { ...this.jobs[index], ...changes };
+    this.jobs = this.jobs.map(job => (job.id === id ? updated : job));
+    await this.persist();
+    return updated;
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.jobs));
+    } catch (error) {
+      console.warn("Failed to save upload queue:", error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+}
+
+export const uploadQueue = new UploadQueue();
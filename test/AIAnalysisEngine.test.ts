@@ -0,0 +1,126 @@
+import * as tf from '@tensorflow/tfjs';
+import { AIAnalysisEngine, PoseLandmark } from '@/components/AIAnalysisEngine';
+import { landmarkIndex, ThrowingHand } from '@/components/JointRoles';
+import { FixturePersonDetector } from '@/components/PersonDetector';
+import { FixturePoseBackend, STANDING_POSE_FIXTURE } from '@/components/PoseBackend';
+import { FixtureTechniqueModel } from '@/components/TechniqueClassifier';
+import { loadImageTensor } from '@/components/ImageTensor';
+import { FIXTURE_VIDEOS, FixtureFrameSource } from './fixtureVideos';
+
+// Frames are never decoded; the fixture backends ignore the pixels, so a
+// small blank image keeps cropping cheap on the CPU backend
+jest.mock('@/components/ImageTensor', () => ({
+  loadImageTensor: jest.fn(async () => require('@tensorflow/tfjs').zeros([24, 32, 3]))
+}));
+
+const ATHLETE_BOX = { x: 0.2, y: 0.05, width: 0.6, height: 0.9, confidence: 0.9 };
+
+/** Standing pose whose throwing wrist whips up and forward around frame 30 */
+const throwFixture = (hand: ThrowingHand, frameCount = 60): PoseLandmark[][] => {
+  const wrist = landmarkIndex(hand === 'right' ? 'right_wrist' : 'left_wrist');
+  const elbow = landmarkIndex(hand === 'right' ? 'right_elbow' : 'left_elbow');
+  return Array.from({ length: frameCount }, (_, i) => {
+    const swing = Math.min(1, Math.max(0, (i - 26) / 8)); // 0 before the throw, 1 after
+    return STANDING_POSE_FIXTURE.map((landmark, joint) => {
+      if (joint !== wrist && joint !== elbow) return { ...landmark };
+      const reach = joint === wrist ? 0.35 : 0.15;
+      return { ...landmark, y: landmark.y - reach * swing };
+    });
+  });
+};
+
+const createEngine = (hand: ThrowingHand, probabilities?: number[], detections = [[ATHLETE_BOX]]) => {
+  const frameSource = new FixtureFrameSource();
+  const poseBackend = new FixturePoseBackend(throwFixture(hand));
+  const engine = new AIAnalysisEngine({
+    frameSource,
+    personDetector: new FixturePersonDetector(detections),
+    poseBackend,
+    techniqueModel: new FixtureTechniqueModel(probabilities)
+  });
+  return { engine, frameSource, poseBackend };
+};
+
+describe('AIAnalysisEngine with fixture backends', () => {
+  beforeAll(async () => {
+    await tf.setBackend('cpu');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('analyzes a fixture clip end to end', async () => {
+    const { engine, frameSource } = createEngine('right');
+    const stages: string[] = [];
+
+    const result = await engine.processVideo(FIXTURE_VIDEOS['30fps'], {
+      throwingHand: 'right',
+      onStage: stage => stages.push(stage)
+    });
+
+    expect(stages).toEqual(['detecting', 'pose', 'classifying', 'rendering']);
+    expect(result.prediction).toBe('Good Technique');
+    expect(result.confidence).toBeCloseTo(0.7);
+    expect(result.throwingHand).toBe('right');
+    expect(result.poseData).toHaveLength(60);
+    expect(result.phases?.releaseTimestamp).toBeGreaterThan(800);
+    expect(result.phases?.releaseTimestamp).toBeLessThan(1200);
+    expect(result.metrics).toBeDefined();
+    expect(frameSource.extracted).toHaveLength(60);
+    expect(frameSource.released).toEqual(frameSource.extracted);
+  });
+
+  it('maps landmarks from the athlete crop back into the frame', async () => {
+    const { engine } = createEngine('right');
+    const result = await engine.processVideo(FIXTURE_VIDEOS['30fps'], { throwingHand: 'right' });
+
+    const nose = result.poseData[0].landmarks[landmarkIndex('nose')];
+    expect(nose.x).toBeCloseTo(ATHLETE_BOX.x + STANDING_POSE_FIXTURE[0].x * ATHLETE_BOX.width, 2);
+  });
+
+  it('names the right leg for a left-handed poor block', async () => {
+    const { engine } = createEngine('left', [0.1, 0.1, 0.7, 0.1]);
+    const result = await engine.processVideo(FIXTURE_VIDEOS['30fps'], { throwingHand: 'left' });
+
+    expect(result.prediction).toBe('Poor Right Leg Block');
+    expect(result.throwingHand).toBe('left');
+    const frame = result.poseData[0].landmarks;
+    expect(frame[landmarkIndex('right_knee')].isCorrect).toBe(false);
+    expect(frame[landmarkIndex('left_knee')].isCorrect).toBe(true);
+  });
+
+  it('detects a left-handed thrower', async () => {
+    const { engine } = createEngine('left');
+    const result = await engine.processVideo(FIXTURE_VIDEOS['30fps']);
+    expect(result.throwingHand).toBe('left');
+  });
+
+  it('decodes each frame once', async () => {
+    const { engine, frameSource } = createEngine('right');
+    jest.mocked(loadImageTensor).mockClear();
+
+    await engine.processVideo(FIXTURE_VIDEOS['30fps'], { throwingHand: 'right' });
+    expect(jest.mocked(loadImageTensor)).toHaveBeenCalledTimes(frameSource.extracted.length);
+  });
+
+  it('keeps a dispose requested mid-run when another run starts', async () => {
+    const { engine, poseBackend } = createEngine('right');
+    const dispose = jest.spyOn(poseBackend, 'dispose');
+
+    const first = engine.processVideo(FIXTURE_VIDEOS['30fps'], { throwingHand: 'right' });
+    engine.dispose();
+    const second = engine.processVideo(FIXTURE_VIDEOS['30fps'], { throwingHand: 'right' });
+    expect(dispose).not.toHaveBeenCalled();
+
+    await Promise.all([first, second]);
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails when nobody is in frame and still releases the frames', async () => {
+    const { engine, frameSource } = createEngine('right', undefined, [[]]);
+
+    await expect(engine.processVideo(FIXTURE_VIDEOS['60fps'])).rejects.toThrow('No athlete detected');
+    expect(frameSource.extracted.length).toBeGreaterThan(0);
+    expect(frameSource.released).toEqual(frameSource.extracted);
+  });
+});
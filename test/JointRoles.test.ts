@@ -0,0 +1,58 @@
+import { TECHNIQUE_CLASSES } from '@/components/TechniqueClassifier';
+import {
+  isJointCorrect, LANDMARK_NAMES, LandmarkName, landmarkIndex, PREDICTION_FAULTS, ThrowingHand
+} from '@/components/JointRoles';
+
+const faultyJoints = (prediction: string, hand: ThrowingHand): LandmarkName[] =>
+  LANDMARK_NAMES.filter((_, index) => !isJointCorrect(index, prediction, hand));
+
+const RIGHT_ARM: LandmarkName[] = [
+  'right_shoulder', 'right_elbow', 'right_wrist', 'right_pinky', 'right_index', 'right_thumb'
+];
+const LEFT_ARM: LandmarkName[] = [
+  'left_shoulder', 'left_elbow', 'left_wrist', 'left_pinky', 'left_index', 'left_thumb'
+];
+const LEFT_LEG: LandmarkName[] = ['left_hip', 'left_knee', 'left_ankle', 'left_heel', 'left_foot_index'];
+const RIGHT_LEG: LandmarkName[] = ['right_hip', 'right_knee', 'right_ankle', 'right_heel', 'right_foot_index'];
+
+const sorted = (names: LandmarkName[]) => [...names].sort();
+
+describe('PREDICTION_FAULTS', () => {
+  it('covers every technique class and the left-handed block label', () => {
+    TECHNIQUE_CLASSES.forEach(prediction => expect(PREDICTION_FAULTS[prediction]).toBeDefined());
+    expect(PREDICTION_FAULTS['Poor Right Leg Block']).toEqual(['blockLeg']);
+  });
+});
+
+describe('isJointCorrect', () => {
+  it.each<ThrowingHand>(['right', 'left'])('marks nothing for good technique (%s-handed)', hand => {
+    expect(faultyJoints('Good Technique', hand)).toEqual([]);
+  });
+
+  it('marks the throwing arm for a low arm', () => {
+    expect(sorted(faultyJoints('Low Arm', 'right'))).toEqual(sorted(RIGHT_ARM));
+    expect(sorted(faultyJoints('Low Arm', 'left'))).toEqual(sorted(LEFT_ARM));
+  });
+
+  it('marks the left leg for a right-handed poor block', () => {
+    expect(sorted(faultyJoints('Poor Left Leg Block', 'right'))).toEqual(sorted(LEFT_LEG));
+  });
+
+  it('marks the right leg for a left-handed poor block', () => {
+    expect(sorted(faultyJoints('Poor Right Leg Block', 'left'))).toEqual(sorted(RIGHT_LEG));
+  });
+
+  it('marks the throwing arm and block leg for both errors', () => {
+    expect(sorted(faultyJoints('Both Errors', 'right'))).toEqual(sorted([...RIGHT_ARM, ...LEFT_LEG]));
+    expect(sorted(faultyJoints('Both Errors', 'left'))).toEqual(sorted([...LEFT_ARM, ...RIGHT_LEG]));
+  });
+
+  it('never marks the head or the free limbs', () => {
+    const free = ['nose', 'left_ear', 'mouth_right', 'left_wrist', 'right_knee'] as const;
+    free.forEach(name => expect(isJointCorrect(landmarkIndex(name), 'Both Errors', 'right')).toBe(true));
+  });
+
+  it('marks nothing for an unknown prediction', () => {
+    expect(faultyJoints('Wobbly Approach', 'right')).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+import { parseMp4Metadata } from '@/components/Mp4Metadata';
+import { FIXTURE_VIDEOS, readFixtureMetadata } from './fixtureVideos';
+
+describe('parseMp4Metadata', () => {
+  it('reads a faststart clip', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['30fps']);
+    expect(metadata).toEqual({ durationMs: 2000, frameRate: 30, frameCount: 60, width: 320, height: 240 });
+  });
+
+  it('finds the moov box at the end of the file', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['60fps']);
+    expect(metadata).toEqual({ durationMs: 1500, frameRate: 60, frameCount: 90, width: 240, height: 320 });
+  });
+
+  it('keeps fractional NTSC frame rates', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['23.976fps']);
+    expect(metadata.frameRate).toBeCloseTo(24000 / 1001, 6);
+    expect(metadata.frameCount).toBe(72);
+    expect(metadata.durationMs).toBeCloseTo(3003, 0);
+  });
+
+  it('rejects files without a moov box', async () => {
+    const bytes = new Uint8Array(64);
+    await expect(parseMp4Metadata(async (offset, length) => bytes.subarray(offset, offset + length), bytes.length))
+      .rejects.toThrow();
+  });
+});
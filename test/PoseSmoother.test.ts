@@ -0,0 +1,85 @@
+import { PoseFrame } from '@/components/AIAnalysisEngine';
+import { landmarkIndex } from '@/components/JointRoles';
+import { STANDING_POSE_FIXTURE } from '@/components/PoseBackend';
+import { DEFAULT_POSE_FILTER_OPTIONS, OneEuroFilter, smoothPoseSequence } from '@/components/PoseSmoother';
+
+const FRAME_MS = 1000 / 30;
+const WRIST = landmarkIndex('right_wrist');
+
+const defaultFilter = () => new OneEuroFilter(
+  DEFAULT_POSE_FILTER_OPTIONS.minCutoff,
+  DEFAULT_POSE_FILTER_OPTIONS.beta,
+  DEFAULT_POSE_FILTER_OPTIONS.derivativeCutoff
+);
+
+// Still at 0.4, then three frames at 3.0 units per second up to 0.7
+const RELEASE_TRACK = [...Array(10).fill(0.4), 0.5, 0.6, 0.7, ...Array(6).fill(0.7)];
+
+const speeds = (values: number[]) => values.slice(1).map((value, i) => (value - values[i]) / (FRAME_MS / 1000));
+
+// Deterministic noise in [-0.5, 0.5)
+const noise = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647 - 0.5;
+};
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+describe('OneEuroFilter with the default options', () => {
+  it('keeps up with a release-speed wrist in normalized coordinates', () => {
+    const filter = defaultFilter();
+    const smoothed = RELEASE_TRACK.map((value, i) => filter.filter(value, i * FRAME_MS));
+
+    expect(smoothed[12]).toBeGreaterThan(0.67);
+    const rawSpeeds = speeds(RELEASE_TRACK);
+    const smoothedSpeeds = speeds(smoothed);
+    expect(Math.max(...smoothedSpeeds)).toBeGreaterThan(2.9);
+    // The speed peak stays within the frames where the wrist really moved
+    const peakFrame = smoothedSpeeds.indexOf(Math.max(...smoothedSpeeds));
+    expect(rawSpeeds[peakFrame]).toBeCloseTo(3.0);
+  });
+
+  it('still damps jitter on a joint that is nearly still', () => {
+    const filter = defaultFilter();
+    const random = noise(1);
+    const raw = Array.from({ length: 300 }, () => 0.5 + 0.004 * random());
+    const smoothed = raw.map((value, i) => filter.filter(value, i * FRAME_MS));
+
+    expect(standardDeviation(smoothed.slice(20))).toBeLessThan(0.6 * standardDeviation(raw.slice(20)));
+  });
+});
+
+describe('smoothPoseSequence', () => {
+  const sequence = (wrist: { y: number; visibility: number; interpolated?: boolean }[]): PoseFrame[] =>
+    wrist.map((point, i) => ({
+      frame: i,
+      timestamp: i * FRAME_MS,
+      landmarks: STANDING_POSE_FIXTURE.map((landmark, joint) => (joint === WRIST ? { ...landmark, ...point } : { ...landmark }))
+    }));
+
+  it('passes low-visibility samples through without feeding the filter', () => {
+    const smoothed = smoothPoseSequence(sequence([
+      { y: 0.4, visibility: 0.9 },
+      { y: 0.4, visibility: 0.9 },
+      { y: 0.95, visibility: 0.1 },
+      { y: 0.4, visibility: 0.9 }
+    ]));
+
+    expect(smoothed[2].landmarks[WRIST].y).toBe(0.95);
+    expect(smoothed[3].landmarks[WRIST].y).toBeCloseTo(0.4, 6);
+  });
+
+  it('filters interpolated samples', () => {
+    const smoothed = smoothPoseSequence(sequence([
+      { y: 0.4, visibility: 0.9 },
+      { y: 0.4, visibility: 0.9 },
+      { y: 0.6, visibility: 0.1, interpolated: true }
+    ]));
+
+    expect(smoothed[2].landmarks[WRIST].y).toBeGreaterThan(0.4);
+    expect(smoothed[2].landmarks[WRIST].y).toBeLessThan(0.6);
+  });
+});
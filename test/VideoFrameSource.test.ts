@@ -0,0 +1,38 @@
+import { planFrameSamples } from '@/components/VideoFrameSource';
+import { FIXTURE_VIDEOS, readFixtureMetadata } from './fixtureVideos';
+
+describe('planFrameSamples', () => {
+  it('samples every frame when the target matches the clip', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['30fps']);
+    const samples = planFrameSamples(metadata, { targetFps: 30 });
+    expect(samples).toHaveLength(60);
+    expect(samples[1]).toEqual({ frame: 1, timestamp: 1000 / 30 });
+  });
+
+  it('never samples faster than the clip', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['30fps']);
+    expect(planFrameSamples(metadata, { targetFps: 60 })).toHaveLength(60);
+  });
+
+  it('skips frames of a high frame rate clip', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['60fps']);
+    const samples = planFrameSamples(metadata, { targetFps: 30 });
+    expect(samples.slice(0, 45).map(sample => sample.frame)).toEqual(Array.from({ length: 45 }, (_, i) => i * 2));
+    expect(samples[samples.length - 1].frame).toBeLessThan(metadata.frameCount);
+  });
+
+  it('snaps timestamps to real frame times', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['23.976fps']);
+    const samples = planFrameSamples(metadata, { targetFps: 30 });
+    expect(samples).toHaveLength(72);
+    samples.forEach(sample => expect(sample.timestamp).toBeCloseTo((sample.frame * 1001) / 24, 6));
+    expect(samples[samples.length - 1].frame).toBe(71);
+  });
+
+  it('lowers the rate to stay under maxFrames', async () => {
+    const metadata = await readFixtureMetadata(FIXTURE_VIDEOS['60fps']);
+    const samples = planFrameSamples(metadata, { targetFps: 60, maxFrames: 30 });
+    expect(samples.length).toBeLessThanOrEqual(30);
+    expect(samples[samples.length - 1].timestamp).toBeGreaterThan(1400);
+  });
+});
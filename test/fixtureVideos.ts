@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseMp4Metadata, VideoMetadata } from '@/components/Mp4Metadata';
+import { FrameSamplingOptions, planFrameSamples, VideoFrame, VideoFrameSource } from '@/components/VideoFrameSource';
+
+export const FIXTURE_VIDEOS = {
+  '30fps': 'throw_30fps_2s.mp4',
+  '60fps': 'throw_60fps_1500ms.mp4',
+  '23.976fps': 'throw_23976fps_3s.mp4'
+};
+
+const fixturePath = (fileName: string) => join(__dirname, 'fixtures', fileName);
+
+/** Parse a clip in test/fixtures the way the app reads one from disk */
+export function readFixtureMetadata(fileName: string): Promise<VideoMetadata> {
+  const bytes = readFileSync(fixturePath(fileName));
+  const read = async (offset: number, length: number) =>
+    new Uint8Array(bytes.subarray(offset, offset + length));
+  return parseMp4Metadata(read, bytes.length);
+}
+
+/**
+ * Frame source over the fixture clips: real metadata and sample plan, with a
+ * placeholder URI per frame instead of a decoded thumbnail
+ */
+export class FixtureFrameSource implements VideoFrameSource {
+  extracted: VideoFrame[] = [];
+  released: VideoFrame[] = [];
+
+  readMetadata(videoUri: string): Promise<VideoMetadata> {
+    return readFixtureMetadata(videoUri);
+  }
+
+  async extractFrames(videoUri: string, metadata: VideoMetadata, options: FrameSamplingOptions): Promise<VideoFrame[]> {
+    const frames = planFrameSamples(metadata, options).map(sample => ({
+      ...sample,
+      uri: `fixture://${videoUri}/${sample.frame}`,
+      width: metadata.width,
+      height: metadata.height
+    }));
+    this.extracted.push(...frames);
+    return frames;
+  }
+
+  async releaseFrames(frames: VideoFrame[]): Promise<void> {
+    this.released.push(...frames);
+  }
+}
@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalysisResult } from '@/components/AIAnalysisEngine';
+import { addHistoryEntry, getHistoryEntry, loadHistory, updateHistoryEntry } from '@/src/historyStore';
+
+const RESULT: AnalysisResult = {
+  prediction: 'Good Technique',
+  confidence: 0.8,
+  probabilities: { 'Good Technique': 0.8 },
+  poseData: [],
+  analysisId: 'analysis_1',
+  timestamp: 1
+};
+
+const newEntry = () => ({ result: RESULT, videoUri: 'file:///throw.mp4', athlete: null });
+
+describe('historyStore', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('keeps both of two concurrent updates', async () => {
+    const { id } = await addHistoryEntry(newEntry());
+
+    await Promise.all([
+      updateHistoryEntry(id, { savedToGallery: true }),
+      updateHistoryEntry(id, { localVideoUri: 'file:///copy.mp4' })
+    ]);
+
+    expect(await getHistoryEntry(id)).toMatchObject({ savedToGallery: true, localVideoUri: 'file:///copy.mp4' });
+  });
+
+  it('keeps every throw added at the same time', async () => {
+    await Promise.all([addHistoryEntry(newEntry()), addHistoryEntry(newEntry()), addHistoryEntry(newEntry())]);
+    expect(await loadHistory()).toHaveLength(3);
+  });
+
+  it('fails instead of overwriting the history when it cannot be read', async () => {
+    await addHistoryEntry(newEntry());
+    jest.mocked(AsyncStorage.getItem).mockRejectedValueOnce(new Error('Row too big'));
+
+    await expect(addHistoryEntry(newEntry())).rejects.toThrow('Row too big');
+    expect(await loadHistory()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,9 @@
+// The React Native TF.js platform needs a GL context; tests run on the CPU
+// backend and stub the JPEG decoder
+jest.mock('@tensorflow/tfjs-react-native', () => ({
+  decodeJpeg: jest.fn()
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);